@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as http from 'http';
 import { fileURLToPath } from 'url';
 import { exec } from 'child_process';
+import { randomUUID } from 'crypto';
 import { WebSocketServer, type WebSocket } from 'ws';
 import { readConfig, readScene, writeScene, listScenes, deleteScene } from '../lib/scene-fs.js';
 import { createDevServerManager, type DevServerManager } from '../lib/dev-server.js';
@@ -146,6 +147,29 @@ export function board(args: string[]): void {
   startServer(distDir, port, open, cwd, config, devServer);
 }
 
+// ============================================================
+// Apply results
+// ============================================================
+
+/**
+ * How long an apply request waits for cards to report back. Only clients
+ * that announced they acknowledge applies (`scene:ack`) are waited for.
+ */
+const APPLY_RESULT_TIMEOUT_MS = 3000;
+
+/** A card's report after injecting a scene (`scene:applied` over WebSocket) */
+interface ApplyResult {
+  success: boolean;
+  error?: string;
+  issues?: Array<{ storeName: string; path: Array<string | number>; message: string }>;
+}
+
+interface PendingApply {
+  expected: number;
+  results: ApplyResult[];
+  resolve: (results: ApplyResult[]) => void;
+}
+
 // ============================================================
 // HTTP server
 // ============================================================
@@ -185,6 +209,45 @@ function startServer(
     return count;
   }
 
+  const pendingApplies = new Map<string, PendingApply>();
+  // Clients that answer every scene:apply with scene:applied
+  const acknowledging = new Set<WebSocket>();
+
+  function acknowledgingClients(): number {
+    let count = 0;
+    for (const client of acknowledging) {
+      if (client.readyState === 1) count++;
+    }
+    return count;
+  }
+
+  /** Collect `scene:applied` replies until every card answered or the timeout hits */
+  function awaitApplyResults(requestId: string, expected: number): Promise<ApplyResult[]> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => finish(), APPLY_RESULT_TIMEOUT_MS);
+      const pending: PendingApply = { expected, results: [], resolve: () => finish() };
+
+      function finish() {
+        clearTimeout(timer);
+        pendingApplies.delete(requestId);
+        resolve(pending.results);
+      }
+
+      pendingApplies.set(requestId, pending);
+    });
+  }
+
+  function recordApplyResult(msg: { requestId?: unknown } & ApplyResult): void {
+    const pending = typeof msg.requestId === 'string' ? pendingApplies.get(msg.requestId) : undefined;
+    if (!pending) return;
+    pending.results.push({
+      success: msg.success === true,
+      ...(msg.error !== undefined && { error: String(msg.error) }),
+      ...(Array.isArray(msg.issues) && { issues: msg.issues }),
+    });
+    if (pending.results.length >= pending.expected) pending.resolve(pending.results);
+  }
+
   function broadcastScenes(): number {
     const scenes = listScenes(cwd);
     const payload = JSON.stringify({ type: 'scenes:changed', scenes });
@@ -231,11 +294,16 @@ function startServer(
 
       let mode: 'merge' | 'replace' = scene.injectMode ?? 'merge';
       let openIfMissing = false;
+      let awaitResults = false;
 
       try {
         const body = await readBody(req);
         if (body.trim()) {
-          const parsed = JSON.parse(body) as { mode?: string; openIfMissing?: unknown };
+          const parsed = JSON.parse(body) as {
+            mode?: string;
+            openIfMissing?: unknown;
+            awaitResults?: unknown;
+          };
           if (parsed.mode !== undefined) {
             if (parsed.mode !== 'merge' && parsed.mode !== 'replace') {
               jsonResponse(res, 400, { error: 'Invalid mode. Expected merge or replace.' });
@@ -244,26 +312,37 @@ function startServer(
             mode = parsed.mode;
           }
           openIfMissing = parsed.openIfMissing === true;
+          awaitResults = parsed.awaitResults === true;
         }
       } catch {
         jsonResponse(res, 400, { error: 'Invalid JSON body' });
         return;
       }
 
+      const requestId = randomUUID();
       const payload = {
         type: 'scene:apply' as const,
+        requestId,
         sceneId,
         mode,
         openIfMissing,
+        storeVersions: scene.storeVersions,
       };
 
       const broadcastClients = broadcast(JSON.stringify(payload));
+      const expected = awaitResults ? acknowledgingClients() : 0;
+      const results = expected > 0 ? await awaitApplyResults(requestId, expected) : undefined;
+      // Cards that did not report back in time leave the outcome unknown
+      const timedOut = results !== undefined && results.length < expected;
+
       jsonResponse(res, 200, {
-        ok: true,
+        ok: results ? !timedOut && results.every((r) => r.success) : true,
         sceneId,
         mode,
         openIfMissing,
         broadcastClients,
+        ...(results && { results }),
+        ...(timedOut && { missingResults: expected - results.length }),
       });
       return;
     }
@@ -410,11 +489,19 @@ function startServer(
         } else if (msg.type === 'scene:delete' && msg.id) {
           deleteScene(cwd, msg.id);
           broadcastScenes();
+        } else if (msg.type === 'scene:ack') {
+          acknowledging.add(ws);
+        } else if (msg.type === 'scene:applied') {
+          recordApplyResult(msg);
         }
       } catch {
         // ignore malformed client message
       }
     });
+
+    ws.on('close', () => {
+      acknowledging.delete(ws);
+    });
   });
 
   // Broadcast dev server status changes
@@ -12,12 +12,14 @@ import {
   getScenePath,
 } from '../lib/scene-fs.js';
 import type { SceneFile } from '../lib/scene-fs.js';
+import { loadMigrations, migrateScene } from '../lib/scene-migrate.js';
+import type { MigrationMap, SceneMigrationResult } from '../lib/scene-migrate.js';
 
 // ============================================================
 // Arg parsing helpers
 // ============================================================
 
-const BOOLEAN_FLAGS = new Set(['--open-if-missing']);
+const BOOLEAN_FLAGS = new Set(['--open-if-missing', '--dry-run']);
 
 function parseFlag(args: string[], flag: string): string | undefined {
   const idx = args.indexOf(flag);
@@ -80,6 +82,7 @@ function sceneCreate(args: string[]): void {
   }
 
   let stores: Record<string, Record<string, unknown>> = {};
+  let storeVersions: Record<string, number> | undefined;
 
   if (fromSnapshot) {
     if (!fs.existsSync(fromSnapshot)) {
@@ -92,6 +95,7 @@ function sceneCreate(args: string[]): void {
       process.exit(1);
     }
     stores = snapshot.stores;
+    storeVersions = snapshot.storeVersions;
   } else if (storesJson) {
     try {
       stores = JSON.parse(storesJson);
@@ -106,6 +110,7 @@ function sceneCreate(args: string[]): void {
   const scene = createScene(id, rawName, stores, {
     description,
     tags,
+    storeVersions,
     createdBy: 'human',
   });
 
@@ -244,6 +249,17 @@ function sceneDelete(args: string[]): void {
   console.log(`Deleted scene "${id}".`);
 }
 
+interface ApplyResponse {
+  broadcastClients?: number;
+  /** Cards that were expected to report back but did not in time */
+  missingResults?: number;
+  results?: Array<{
+    success: boolean;
+    error?: string;
+    issues?: Array<{ storeName: string; path: Array<string | number>; message: string }>;
+  }>;
+}
+
 async function sceneApply(args: string[]): Promise<void> {
   const positional = positionalArgs(args);
   const rawName = positional[0];
@@ -280,7 +296,7 @@ async function sceneApply(args: string[]): Promise<void> {
     response = await fetch(endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ mode, openIfMissing }),
+      body: JSON.stringify({ mode, openIfMissing, awaitResults: true }),
     });
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -303,13 +319,36 @@ async function sceneApply(args: string[]): Promise<void> {
     return;
   }
 
-  let data: { broadcastClients?: number } | null = null;
+  let data: ApplyResponse | null = null;
   try {
-    data = (await response.json()) as { broadcastClients?: number };
+    data = (await response.json()) as ApplyResponse;
   } catch {
     data = null;
   }
 
+  const rejected = (data?.results ?? []).filter((r) => !r.success);
+  if (rejected.length > 0) {
+    console.error(`Error: scene "${id}" was rejected by ${rejected.length} card(s):`);
+    for (const result of rejected) {
+      if (result.issues && result.issues.length > 0) {
+        for (const issue of result.issues) {
+          const where = [issue.storeName, ...issue.path].join('.');
+          console.error(`  ${where}: ${issue.message}`);
+        }
+      } else {
+        console.error(`  ${result.error ?? 'unknown error'}`);
+      }
+    }
+    process.exit(1);
+    return;
+  }
+
+  if (data?.missingResults) {
+    console.error(`Error: ${data.missingResults} card(s) did not report whether scene "${id}" was applied.`);
+    process.exit(1);
+    return;
+  }
+
   const count = data?.broadcastClients;
   if (typeof count === 'number') {
     console.log(`Applied scene "${id}" (mode=${mode}, broadcast=${count}).`);
@@ -318,6 +357,69 @@ async function sceneApply(args: string[]): Promise<void> {
   }
 }
 
+async function sceneMigrate(args: string[]): Promise<void> {
+  const positional = positionalArgs(args);
+  const rawName = positional[0];
+
+  const migrationsPath = parseFlag(args, '--migrations');
+  if (!migrationsPath) {
+    console.error('Error: --migrations <file> is required.\nUsage: state-sdk scene migrate [name] --migrations <file> [--dry-run]');
+    process.exit(1);
+    return;
+  }
+
+  const cwd = process.cwd();
+  const dryRun = hasFlag(args, '--dry-run');
+
+  let scenes: SceneFile[];
+  if (rawName) {
+    const id = toSceneId(rawName);
+    const found = readScene(cwd, id);
+    if (!found) {
+      console.error(`Error: scene "${id}" not found.`);
+      process.exit(1);
+      return;
+    }
+    scenes = [found];
+  } else {
+    scenes = listScenes(cwd);
+  }
+
+  let migrations: MigrationMap;
+  try {
+    migrations = await loadMigrations(migrationsPath);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`Error: failed to load migrations: ${msg}`);
+    process.exit(1);
+    return;
+  }
+
+  // Migrate everything before writing, so a failing scene leaves all files untouched
+  const results: SceneMigrationResult[] = [];
+  for (const scene of scenes) {
+    try {
+      results.push(await migrateScene(scene, migrations));
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Error: ${msg}`);
+      process.exit(1);
+      return;
+    }
+  }
+
+  let changed = 0;
+  for (const { scene, migrated } of results) {
+    if (migrated.length === 0) continue;
+    changed++;
+    const steps = migrated.map((m) => `${m.store} v${m.from}→v${m.to}`).join(', ');
+    console.log(`${dryRun ? 'Would migrate' : 'Migrated'} scene "${scene.id}": ${steps}`);
+    if (!dryRun) writeScene(cwd, scene);
+  }
+
+  console.log(`${changed} of ${scenes.length} scene(s) ${dryRun ? 'need migration' : 'migrated'}.`);
+}
+
 function printSceneHelp(): void {
   console.log(`
 Usage: state-sdk scene <subcommand> [options]
@@ -332,6 +434,9 @@ Subcommands:
   delete <name>    Delete a scene
   apply <name>     Apply a scene to running board cards
                    [--port <port>] [--mode merge|replace] [--open-if-missing]
+  migrate [name]   Upgrade scene store data (all scenes when no name is given)
+                   --migrations <file> [--dry-run]
+                   The file (.js/.mjs) exports { [store]: { version, migrate } }
 `);
 }
 
@@ -364,6 +469,9 @@ export async function scene(args: string[]): Promise<void> {
     case 'apply':
       await sceneApply(rest);
       break;
+    case 'migrate':
+      await sceneMigrate(rest);
+      break;
     default:
       if (subcommand && subcommand !== 'help' && subcommand !== '--help') {
         console.error(`Unknown subcommand: ${subcommand}`);
@@ -44,6 +44,7 @@ Commands:
   scene import <file> [--name <name>]   Import a scene from a file
   scene delete <name>             Delete a scene
   scene apply <name> [options]    Apply a scene to running board cards
+  scene migrate [name] --migrations <file>   Upgrade scene data to current store versions
   board [--port <port>] [--open]  Start the preview board
   help                            Show this help message
 `);
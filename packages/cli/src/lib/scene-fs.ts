@@ -24,7 +24,10 @@ export interface SceneFile {
     height: number;
     label?: string;
   };
+  /** Store data; non-JSON values use the serializer's tagged encoding ({ $type, value }) */
   stores: Record<string, Record<string, unknown>>;
+  /** Data version of each store (see StoreConfig.version); missing entries are version 1 */
+  storeVersions?: Record<string, number>;
   injectMode?: 'merge' | 'replace';
   meta?: {
     createdAt: string;
@@ -139,6 +142,7 @@ export function createScene(
     description?: string;
     tags?: string[];
     viewport?: SceneFile['viewport'];
+    storeVersions?: Record<string, number>;
     injectMode?: 'merge' | 'replace';
     createdBy?: 'human' | 'ai';
     prompt?: string;
@@ -153,6 +157,7 @@ export function createScene(
     tags: options?.tags,
     viewport: options?.viewport,
     stores,
+    storeVersions: options?.storeVersions,
     injectMode: options?.injectMode ?? 'merge',
     meta: {
       createdAt: now,
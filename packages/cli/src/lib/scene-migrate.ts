@@ -0,0 +1,102 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { SceneFile } from './scene-fs.js';
+import { decodeTagged, encodeTagged } from './tagged-json.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Mirrors a store's `version` / `migrate` from its StoreConfig */
+export interface StoreMigration {
+  version: number;
+  migrate?: (oldState: any, fromVersion: number) => Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+/** Migrations by store name, as exported from a migrations module */
+export type MigrationMap = Record<string, StoreMigration>;
+
+export interface SceneMigrationResult {
+  scene: SceneFile;
+  /** Stores that were upgraded, with the version they started from */
+  migrated: Array<{ store: string; from: number; to: number }>;
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+/**
+ * Load a migrations module (ESM or CommonJS `.js`/`.mjs`/`.cjs`). The module
+ * exports the map as `default` or as a named `migrations` export.
+ */
+export async function loadMigrations(filePath: string): Promise<MigrationMap> {
+  const url = pathToFileURL(path.resolve(filePath)).href;
+  const mod = await import(url);
+  const map = mod.migrations ?? mod.default?.migrations ?? mod.default;
+
+  if (!map || typeof map !== 'object') {
+    throw new Error(`Migrations module must export a map of store migrations: ${filePath}`);
+  }
+  for (const [store, migration] of Object.entries(map as Record<string, any>)) {
+    if (typeof migration?.version !== 'number') {
+      throw new Error(`Migration for store "${store}" must have a numeric version`);
+    }
+  }
+  return map as MigrationMap;
+}
+
+// ============================================================
+// Migrating
+// ============================================================
+
+/**
+ * Upgrade every store in a scene that is behind its migration's version.
+ * migrate() receives decoded values (Date, Map, ...) and its result is
+ * encoded again. The input scene is not modified.
+ */
+export async function migrateScene(
+  scene: SceneFile,
+  migrations: MigrationMap,
+): Promise<SceneMigrationResult> {
+  const stores = { ...scene.stores };
+  const storeVersions = { ...scene.storeVersions };
+  const migrated: SceneMigrationResult['migrated'] = [];
+
+  for (const [store, data] of Object.entries(scene.stores)) {
+    const migration = migrations[store];
+    if (!migration) continue;
+
+    const from = storeVersions[store] ?? 1;
+    const to = migration.version;
+    if (from === to) continue;
+
+    if (from > to) {
+      throw new Error(
+        `Scene "${scene.id}": store "${store}" is at version ${from}, newer than the migration (version ${to})`,
+      );
+    }
+    if (!migration.migrate) {
+      throw new Error(
+        `Scene "${scene.id}": store "${store}" has no migrate() to upgrade from version ${from} to ${to}`,
+      );
+    }
+
+    const upgraded = await migration.migrate(decodeTagged(data), from);
+    stores[store] = encodeTagged(upgraded) as Record<string, unknown>;
+    storeVersions[store] = to;
+    migrated.push({ store, from, to });
+  }
+
+  if (migrated.length === 0) return { scene, migrated };
+
+  return {
+    scene: {
+      ...scene,
+      stores,
+      storeVersions,
+      meta: scene.meta ? { ...scene.meta, updatedAt: new Date().toISOString() } : scene.meta,
+    },
+    migrated,
+  };
+}
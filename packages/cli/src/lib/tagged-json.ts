@@ -0,0 +1,82 @@
+// ============================================================
+// Tagged JSON
+// ============================================================
+//
+// Scene data uses the state-sdk serializer's tagged encoding: non-JSON values
+// are stored as { "$type": name, "value": payload }. This mirrors the
+// built-in codecs (Date, Map, Set, BigInt, undefined) so CLI code such as
+// scene migrations can work with real values. Tags for app-specific codecs
+// are left encoded and written back unchanged.
+
+const TYPE_KEY = '$type';
+const ESCAPED_OBJECT = 'object';
+
+function isTagged(value: unknown): value is { [TYPE_KEY]: string; value?: unknown } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>)[TYPE_KEY] === 'string'
+  );
+}
+
+function mapObject(
+  obj: Record<string, unknown>,
+  fn: (value: unknown) => unknown,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    result[key] = fn(value);
+  }
+  return result;
+}
+
+export function decodeTagged(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeTagged);
+
+  if (isTagged(value)) {
+    const payload = decodeTagged(value.value);
+    switch (value[TYPE_KEY]) {
+      case ESCAPED_OBJECT:
+        return payload;
+      case 'undefined':
+        return undefined;
+      case 'Date':
+        return new Date((payload as string | null) ?? NaN);
+      case 'Map':
+        return new Map(payload as Array<[unknown, unknown]>);
+      case 'Set':
+        return new Set(payload as unknown[]);
+      case 'BigInt':
+        return BigInt(payload as string);
+      default:
+        return mapObject(value, decodeTagged);
+    }
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return mapObject(value as Record<string, unknown>, decodeTagged);
+  }
+  return value;
+}
+
+function tag(name: string, payload: unknown): Record<string, unknown> {
+  return { [TYPE_KEY]: name, value: encodeTagged(payload) };
+}
+
+export function encodeTagged(value: unknown): unknown {
+  if (value === undefined) return tag('undefined', null);
+  if (typeof value === 'bigint') return tag('BigInt', value.toString());
+  if (value instanceof Date) return tag('Date', Number.isNaN(value.getTime()) ? null : value.toISOString());
+  if (value instanceof Map) return tag('Map', Array.from(value.entries()));
+  if (value instanceof Set) return tag('Set', Array.from(value));
+  if (Array.isArray(value)) return value.map(encodeTagged);
+
+  if (typeof value === 'object' && value !== null) {
+    // Still-encoded app-specific values pass through as they are
+    if (isTagged(value) && value[TYPE_KEY] !== ESCAPED_OBJECT) return mapObject(value, encodeTagged);
+    const result = mapObject(value as Record<string, unknown>, encodeTagged);
+    return TYPE_KEY in result ? { [TYPE_KEY]: ESCAPED_OBJECT, value: result } : result;
+  }
+  return value;
+}
@@ -1,6 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -145,6 +145,13 @@ async function waitForApplyMessage(ws, timeoutMs = 5000) {
   });
 }
 
+/** Announce that this client answers scene:apply with scene:applied */
+async function announceAck(ws) {
+  ws.send(JSON.stringify({ type: 'scene:ack' }));
+  // Give the board a moment to register the client before the next request
+  await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
 async function stopChildProcess(child) {
   if (child.exitCode !== null || child.killed) return;
 
@@ -340,3 +347,264 @@ test('board API apply endpoint broadcasts scene:apply over WebSocket', { timeout
     rmSync(cwd, { recursive: true, force: true });
   }
 });
+
+test('scene apply reports store paths rejected by cards', { timeout: 10000 }, async () => {
+  const cwd = createTempProject({ sceneId: 'checkout' });
+
+  const server = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      ok: false,
+      broadcastClients: 1,
+      results: [{
+        success: false,
+        error: 'Invalid state',
+        issues: [{ storeName: 'counter', path: ['count'], message: 'Expected number' }],
+      }],
+    }));
+  });
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const address = server.address();
+  assert.ok(address && typeof address === 'object');
+
+  try {
+    const result = await runCli(
+      ['scene', 'apply', 'checkout', '--port', String(address.port)],
+      cwd,
+    );
+    assert.equal(result.exitCode, 1);
+    assert.match(result.stderr, /rejected by 1 card/i);
+    assert.match(result.stderr, /counter\.count: Expected number/);
+  } finally {
+    await new Promise((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+    });
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test('board API apply endpoint collects scene:applied results', { timeout: 20000 }, async () => {
+  const cwd = createTempProject({ sceneId: 'checkout' });
+  const boardDist = path.join(cwd, '__board_dist__');
+  mkdirSync(boardDist, { recursive: true });
+  writeFileSync(path.join(boardDist, 'index.html'), '<!doctype html><html><body>board</body></html>\n');
+
+  const port = await getFreePort();
+  const child = spawn(process.execPath, [CLI_ENTRY, 'board', '--port', String(port), '--board-path', boardDist], {
+    cwd,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let ws;
+
+  try {
+    await waitForLine(child.stdout, /Vibe Studio Board running at/);
+
+    ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    await once(ws, 'open');
+
+    // Act as a card whose store schema rejects the scene
+    await announceAck(ws);
+    waitForApplyMessage(ws).then((msg) => {
+      ws.send(JSON.stringify({
+        type: 'scene:applied',
+        requestId: msg.requestId,
+        success: false,
+        error: 'Invalid state',
+        issues: [{ storeName: 'counter', path: ['count'], message: 'Expected number' }],
+      }));
+    }, () => {});
+
+    const response = await httpJson({
+      method: 'POST',
+      port,
+      pathName: '/api/scenes/checkout/apply',
+      body: { awaitResults: true },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data?.ok, false);
+    assert.equal(response.data?.results?.length, 1);
+    assert.deepEqual(response.data.results[0].issues[0].path, ['count']);
+  } finally {
+    if (ws && ws.readyState <= WebSocket.OPEN) {
+      ws.close();
+      await Promise.race([
+        once(ws, 'close'),
+        new Promise((resolve) => setTimeout(resolve, 2000)),
+      ]);
+    }
+
+    await stopChildProcess(child);
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test('board API apply endpoint reports cards that never answer', { timeout: 20000 }, async () => {
+  const cwd = createTempProject({ sceneId: 'checkout' });
+  const boardDist = path.join(cwd, '__board_dist__');
+  mkdirSync(boardDist, { recursive: true });
+  writeFileSync(path.join(boardDist, 'index.html'), '<!doctype html><html><body>board</body></html>\n');
+
+  const port = await getFreePort();
+  const child = spawn(process.execPath, [CLI_ENTRY, 'board', '--port', String(port), '--board-path', boardDist], {
+    cwd,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let ws;
+
+  try {
+    await waitForLine(child.stdout, /Vibe Studio Board running at/);
+
+    ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    await once(ws, 'open');
+
+    // Without acknowledging clients there is nothing to wait for
+    let startedAt = Date.now();
+    const delivered = await httpJson({
+      method: 'POST',
+      port,
+      pathName: '/api/scenes/checkout/apply',
+      body: { awaitResults: true },
+    });
+    assert.equal(delivered.data?.ok, true);
+    assert.equal(delivered.data?.results, undefined);
+    assert.ok(Date.now() - startedAt < 1000);
+
+    // A card that promised to answer but never does
+    await announceAck(ws);
+    startedAt = Date.now();
+    const response = await httpJson({
+      method: 'POST',
+      port,
+      pathName: '/api/scenes/checkout/apply',
+      body: { awaitResults: true },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data?.ok, false);
+    assert.deepEqual(response.data?.results, []);
+    assert.equal(response.data?.missingResults, 1);
+    assert.ok(Date.now() - startedAt >= 2500);
+  } finally {
+    if (ws && ws.readyState <= WebSocket.OPEN) {
+      ws.close();
+      await Promise.race([
+        once(ws, 'close'),
+        new Promise((resolve) => setTimeout(resolve, 2000)),
+      ]);
+    }
+
+    await stopChildProcess(child);
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test('scene apply fails when cards do not report back', { timeout: 10000 }, async () => {
+  const cwd = createTempProject({ sceneId: 'checkout' });
+
+  const server = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: false, broadcastClients: 1, results: [], missingResults: 1 }));
+  });
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const address = server.address();
+  assert.ok(address && typeof address === 'object');
+
+  try {
+    const result = await runCli(
+      ['scene', 'apply', 'checkout', '--port', String(address.port)],
+      cwd,
+    );
+    assert.equal(result.exitCode, 1);
+    assert.match(result.stderr, /1 card\(s\) did not report/i);
+  } finally {
+    await new Promise((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+    });
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test('scene migrate upgrades stores behind their migration version', { timeout: 10000 }, async () => {
+  const cwd = createTempProject({ sceneId: 'checkout' });
+  const migrationsFile = path.join(cwd, 'migrations.mjs');
+  writeFileSync(
+    migrationsFile,
+    `export default {
+      counter: {
+        version: 2,
+        migrate: (state, fromVersion) => (fromVersion < 2 ? { value: state.count } : state),
+      },
+    };\n`,
+  );
+
+  try {
+    const dry = await runCli(['scene', 'migrate', '--migrations', migrationsFile, '--dry-run'], cwd);
+    assert.equal(dry.exitCode, 0);
+    assert.match(dry.stdout, /Would migrate scene "checkout": counter v1→v2/);
+
+    const scenePath = path.join(cwd, '.vibe-studio', 'scenes', 'checkout.scene.json');
+    assert.deepEqual(JSON.parse(readFileSync(scenePath, 'utf-8')).stores, { counter: { count: 1 } });
+
+    const result = await runCli(['scene', 'migrate', '--migrations', migrationsFile], cwd);
+    assert.equal(result.exitCode, 0);
+    const scene = JSON.parse(readFileSync(scenePath, 'utf-8'));
+    assert.deepEqual(scene.stores, { counter: { value: 1 } });
+    assert.deepEqual(scene.storeVersions, { counter: 2 });
+
+    // Already current: nothing to do
+    const again = await runCli(['scene', 'migrate', 'checkout', '--migrations', migrationsFile], cwd);
+    assert.equal(again.exitCode, 0);
+    assert.match(again.stdout, /0 of 1 scene\(s\) migrated/);
+  } finally {
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test('scene migrate passes decoded Dates and Maps to migrate()', { timeout: 10000 }, async () => {
+  const cwd = createTempProject({ sceneId: 'calendar' });
+  const scenePath = path.join(cwd, '.vibe-studio', 'scenes', 'calendar.scene.json');
+  const scene = JSON.parse(readFileSync(scenePath, 'utf-8'));
+  scene.stores = {
+    calendar: {
+      day: { $type: 'Date', value: '2024-01-02T00:00:00.000Z' },
+      notes: { $type: 'Map', value: [['a', 1]] },
+    },
+  };
+  writeFileSync(scenePath, JSON.stringify(scene));
+
+  const migrationsFile = path.join(cwd, 'migrations.mjs');
+  writeFileSync(
+    migrationsFile,
+    `export const migrations = {
+      calendar: {
+        version: 2,
+        migrate: (state) => {
+          if (!(state.day instanceof Date) || !(state.notes instanceof Map)) throw new Error('not decoded');
+          return { days: new Set([state.day.getUTCDate()]), notes: state.notes };
+        },
+      },
+    };\n`,
+  );
+
+  try {
+    const result = await runCli(['scene', 'migrate', 'calendar', '--migrations', migrationsFile], cwd);
+    assert.equal(result.exitCode, 0, result.stderr);
+    assert.deepEqual(JSON.parse(readFileSync(scenePath, 'utf-8')).stores.calendar, {
+      days: { $type: 'Set', value: [2] },
+      notes: { $type: 'Map', value: [['a', 1]] },
+    });
+  } finally {
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { asyncAction } from '../asyncAction';
+import type { AsyncActionsConfig } from '../types';
+
+beforeEach(() => {
+  registry.clear();
+});
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function createUserStore(asyncActions?: AsyncActionsConfig) {
+  const request = deferred<string>();
+  const useStore = create<any>(
+    (set, get) => ({
+      user: null as string | null,
+      loading: false,
+      fetchUser: asyncAction('fetchUser', async () => {
+        set({ loading: true });
+        const user = await request.promise;
+        set({ user, loading: false });
+      }),
+      setUser: (user: string) => set({ user }),
+      load: async () => {
+        set({ loading: true });
+        await request.promise;
+        set({ loading: false });
+      },
+    }),
+    { name: 'user', devtools: false, asyncActions }
+  );
+  return { useStore, request };
+}
+
+describe('async actions', () => {
+  it('should log start, set() and success entries under one correlation id', async () => {
+    const { useStore, request } = createUserStore();
+    const api = useStore as any;
+
+    const done = useStore.getState().fetchUser();
+    request.resolve('ada');
+    await done;
+
+    const log = api.inspector.getActionLog();
+    expect(log.map((e: any) => e.phase ?? e.patches.map((p: any) => p.path[0]).join())).toEqual([
+      'start',
+      'loading',
+      'user,loading',
+      'success',
+    ]);
+    const ids = new Set(log.map((e: any) => e.correlationId));
+    expect(ids.size).toBe(1);
+    expect(log[0].actionName).toBe('user/fetchUser');
+    expect(useStore.getState().user).toBe('ada');
+  });
+
+  it('should log an error entry and rethrow when the action rejects', async () => {
+    const { useStore, request } = createUserStore();
+    const api = useStore as any;
+
+    const done = useStore.getState().fetchUser();
+    request.reject(new Error('offline'));
+    await expect(done).rejects.toThrow('offline');
+
+    const last = api.inspector.getActionLog().at(-1);
+    expect(last.phase).toBe('error');
+    expect(last.error).toBe('offline');
+  });
+
+  it('should detect actions that return a promise', async () => {
+    const { useStore, request } = createUserStore();
+    const api = useStore as any;
+
+    const done = useStore.getState().load();
+    request.resolve('x');
+    await done;
+
+    const log = api.inspector.getActionLog();
+    expect(log.filter((e: any) => e.phase).map((e: any) => e.phase)).toEqual(['start', 'success']);
+    expect(new Set(log.map((e: any) => e.correlationId)).size).toBe(1);
+  });
+
+  it('should not track promise-returning actions when autoDetect is off', async () => {
+    const { useStore, request } = createUserStore({ autoDetect: false });
+    const api = useStore as any;
+
+    const done = useStore.getState().load();
+    request.resolve('x');
+    await done;
+
+    expect(api.inspector.getActionLog().some((e: any) => e.phase)).toBe(false);
+  });
+
+  it('should record each set() as its own step by default', async () => {
+    const { useStore, request } = createUserStore();
+    const api = useStore as any;
+
+    const done = useStore.getState().fetchUser();
+    request.resolve('ada');
+    await done;
+
+    expect(api.temporal.position).toBe(2);
+  });
+
+  it('should undo a whole async flow in one step with singleUndo', async () => {
+    const { useStore, request } = createUserStore({ singleUndo: true });
+    const api = useStore as any;
+
+    const done = useStore.getState().fetchUser();
+    request.resolve('ada');
+    await done;
+
+    expect(api.temporal.position).toBe(1);
+    api.temporal.back();
+    expect(useStore.getState().user).toBeNull();
+    expect(useStore.getState().loading).toBe(false);
+
+    // A later change starts a new step
+    useStore.getState().setUser('grace');
+    useStore.getState().setUser('linus');
+    expect(api.temporal.position).toBe(2);
+  });
+
+  it('should start a new call for an action called while a flow awaits', async () => {
+    const { useStore, request } = createUserStore({ singleUndo: true });
+    const api = useStore as any;
+
+    const done = useStore.getState().fetchUser();
+    useStore.getState().setUser('grace');
+    request.resolve('ada');
+    await done;
+
+    const log = api.inspector.getActionLog();
+    const setUser = log.find((e: any) => e.actionName === 'user/setUser');
+    const start = log.find((e: any) => e.phase === 'start');
+    expect(setUser.correlationId).not.toBe(start.correlationId);
+    expect(setUser.callStack).toEqual(['user/setUser']);
+
+    // The other call's change is its own step, not part of the flow's
+    expect(api.temporal.position).toBe(3);
+    api.temporal.back();
+    expect(useStore.getState().user).toBe('grace');
+    api.temporal.back();
+    expect(useStore.getState().user).toBeNull();
+    expect(useStore.getState().loading).toBe(true);
+  });
+
+  it('should keep concurrent flows apart', async () => {
+    const first = deferred();
+    const second = deferred();
+    const useStore = create<any>(
+      (set) => ({
+        a: 0,
+        b: 0,
+        loadA: asyncAction('loadA', async () => {
+          await first.promise;
+        }),
+        loadB: asyncAction('loadB', async () => {
+          set({ b: 1 });
+          await second.promise;
+        }),
+      }),
+      { name: 'pair', devtools: false }
+    );
+    const api = useStore as any;
+
+    const a = useStore.getState().loadA();
+    const b = useStore.getState().loadB();
+    first.resolve();
+    second.resolve();
+    await Promise.all([a, b]);
+
+    const log = api.inspector.getActionLog();
+    const setB = log.find((e: any) => e.patches[0]?.path[0] === 'b');
+    const startB = log.find((e: any) => e.actionName === 'pair/loadB' && e.phase === 'start');
+    expect(setB.correlationId).toBe(startB.correlationId);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { create } from '../createStore';
 import { registry } from '../registry';
+import { bridge } from '../bridge';
+import type { BranchingConfig } from '../types';
 
 beforeEach(() => {
   registry.clear();
@@ -161,4 +163,812 @@ describe('branching middleware', () => {
     api.branch.fork('test');
     expect(callCount).toBeGreaterThanOrEqual(1);
   });
+
+  describe('merge', () => {
+    function createProfile() {
+      return create<{
+        name: string;
+        count: number;
+        setName: (name: string) => void;
+        increment: () => void;
+      }>(
+        (set) => ({
+          name: 'Alice',
+          count: 0,
+          setName: (name: string) => set({ name }),
+          increment: () => set((draft: any) => { draft.count += 1; }),
+        }),
+        { name: 'profile', devtools: false }
+      );
+    }
+
+    it('should apply source changes to the target as one step', async () => {
+      const useStore = createProfile();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().increment();
+      useStore.getState().increment();
+      api.branch.switch('main');
+
+      const positionBefore = api.temporal.position;
+      const result = api.branch.merge(branch.id, 'main');
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.applied).toEqual([{ op: 'set', path: ['count'], value: 2 }]);
+      expect(useStore.getState().count).toBe(2);
+      expect(api.temporal.position).toBe(positionBefore + 1);
+
+      api.temporal.back();
+      expect(useStore.getState().count).toBe(0);
+    });
+
+    it('should keep non-conflicting changes from both sides', async () => {
+      const useStore = createProfile();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().setName('Bob');
+      api.branch.switch('main');
+      useStore.getState().increment();
+
+      const result = api.branch.merge(branch.id, 'main');
+      expect(result.conflicts).toEqual([]);
+      expect(useStore.getState().name).toBe('Bob');
+      expect(useStore.getState().count).toBe(1);
+    });
+
+    it('should report conflicts without overwriting the target', async () => {
+      const useStore = createProfile();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().setName('Bob');
+      api.branch.switch('main');
+      useStore.getState().setName('Carol');
+
+      const result = api.branch.merge(branch.id, 'main');
+      expect(result.conflicts).toEqual([
+        { path: ['name'], base: 'Alice', ours: 'Carol', theirs: 'Bob' },
+      ]);
+      expect(result.applied).toEqual([]);
+      expect(useStore.getState().name).toBe('Carol');
+    });
+
+    it('should resolve conflicts with the theirs strategy', async () => {
+      const useStore = createProfile();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().setName('Bob');
+      api.branch.switch('main');
+      useStore.getState().setName('Carol');
+
+      const result = api.branch.merge(branch.id, 'main', { strategy: 'theirs' });
+      expect(result.conflicts.length).toBe(1);
+      expect(useStore.getState().name).toBe('Bob');
+    });
+
+    it('should merge into an inactive target branch', async () => {
+      const useStore = createProfile();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().increment();
+
+      api.branch.merge(branch.id, 'main');
+      expect(useStore.getState().count).toBe(1);
+
+      api.branch.switch('main');
+      expect(useStore.getState().count).toBe(1);
+      expect(api.temporal.position).toBe(1);
+    });
+
+    it('should merge a parent into its child from the state at the fork', async () => {
+      const useStore = createProfile();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      useStore.getState().increment();
+      const branch = api.branch.fork('experiment');
+      useStore.getState().setName('Bob');
+      api.branch.switch(branch.id);
+      useStore.getState().increment();
+
+      // count was 1 on both sides at the fork: only the child changed it
+      const result = api.branch.merge('main', branch.id);
+      expect(result.conflicts).toEqual([]);
+      expect(result.applied).toEqual([{ op: 'set', path: ['name'], value: 'Bob' }]);
+      expect(useStore.getState()).toMatchObject({ name: 'Bob', count: 2 });
+    });
+  });
+
+  describe('cherryPick', () => {
+    function createTodos() {
+      return create<{
+        todos: Record<string, { title: string; done: boolean }>;
+        count: number;
+        add: (id: string, title: string) => void;
+        toggle: (id: string) => void;
+        remove: (id: string) => void;
+        increment: () => void;
+      }>(
+        (set) => ({
+          todos: { a: { title: 'A', done: false } },
+          count: 0,
+          add: (id, title) => set((draft: any) => { draft.todos[id] = { title, done: false }; }),
+          toggle: (id) => set((draft: any) => { draft.todos[id].done = !draft.todos[id].done; }),
+          remove: (id) => set((draft: any) => { delete draft.todos[id]; }),
+          increment: () => set((draft: any) => { draft.count += 1; }),
+        }),
+        { name: 'todos', devtools: false }
+      );
+    }
+
+    it('should replay selected steps onto the active branch', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().increment();          // position 1
+      useStore.getState().add('b', 'B');        // position 2
+      useStore.getState().toggle('a');          // position 3
+      api.branch.switch('main');
+
+      const result = api.branch.cherryPick(branch.id, [2, 3]);
+      expect(result.picked).toEqual([2, 3]);
+      expect(result.failed).toEqual([]);
+
+      const state = useStore.getState();
+      expect(state.count).toBe(0);
+      expect(state.todos.b).toEqual({ title: 'B', done: false });
+      expect(state.todos.a.done).toBe(true);
+
+      // Each picked step is its own undo entry
+      expect(api.temporal.position).toBe(2);
+      api.temporal.back();
+      expect(useStore.getState().todos.a.done).toBe(false);
+    });
+
+    it('should report steps whose paths no longer exist', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().toggle('a');          // position 1
+      useStore.getState().increment();          // position 2
+      api.branch.switch('main');
+      useStore.getState().remove('a');
+
+      const result = api.branch.cherryPick(branch.id, [1, 2]);
+      expect(result.picked).toEqual([2]);
+      expect(result.failed.length).toBe(1);
+      expect(result.failed[0].position).toBe(1);
+      expect(result.failed[0].path).toEqual(['todos', 'a']);
+      expect(useStore.getState().count).toBe(1);
+      expect(useStore.getState().todos.a).toBeUndefined();
+    });
+
+    it('should reject out-of-range positions before applying anything', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const branch = api.branch.fork('experiment');
+      api.branch.switch(branch.id);
+      useStore.getState().increment();
+      api.branch.switch('main');
+
+      expect(() => api.branch.cherryPick(branch.id, [1, 5])).toThrow('out of range');
+      expect(useStore.getState().count).toBe(0);
+    });
+  });
+
+  describe('cherryPick from main', () => {
+    it('should cherry-pick steps recorded on main', async () => {
+      const useStore = create<any>(
+        (set) => ({
+          todos: { a: { title: 'A', done: false } } as Record<string, { title: string; done: boolean }>,
+          count: 0,
+          add: (id: string, title: string) => set((draft: any) => { draft.todos[id] = { title, done: false }; }),
+          increment: () => set((draft: any) => { draft.count += 1; }),
+        }),
+        { name: 'todos', devtools: false }
+      );
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      useStore.getState().add('b', 'B');
+      api.branch.switch(feature.id);
+      useStore.getState().increment();
+
+      const result = api.branch.cherryPick('main', [1]);
+
+      expect(result.picked).toEqual([1]);
+      expect(useStore.getState().todos.b).toEqual({ title: 'B', done: false });
+      expect(useStore.getState().count).toBe(1);
+      expect(api.branch.list().find((b: any) => b.id === 'main').patches.patches[0][0].path).toEqual(['todos', 'b']);
+    });
+  });
+
+  describe('rebase', () => {
+    function createTodos() {
+      return create<any>(
+        (set) => ({
+          todos: { a: { title: 'A', done: false } } as Record<string, { title: string; done: boolean }>,
+          count: 0,
+          add: (id: string, title: string) => set((draft: any) => { draft.todos[id] = { title, done: false }; }),
+          toggle: (id: string) => set((draft: any) => { draft.todos[id].done = !draft.todos[id].done; }),
+          remove: (id: string) => set((draft: any) => { delete draft.todos[id]; }),
+          increment: () => set((draft: any) => { draft.count += 1; }),
+        }),
+        { name: 'todos', devtools: false }
+      );
+    }
+
+    it('should replay the branch on top of the parent\'s current state', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      api.branch.switch(feature.id);
+      useStore.getState().add('b', 'B');
+      useStore.getState().toggle('a');
+      api.branch.switch('main');
+      useStore.getState().increment();
+      useStore.getState().increment();
+
+      const result = api.branch.rebase(feature.id, 'main');
+
+      expect(result).toEqual({ forkPoint: 2, replayed: [1, 2], failed: [] });
+      const rebased = api.branch.list().find((b: any) => b.id === feature.id);
+      expect(rebased.forkPoint).toBe(2);
+      expect(rebased.snapshot.count).toBe(2);
+      expect(rebased.currentState).toMatchObject({ count: 2, todos: { a: { done: true }, b: { title: 'B' } } });
+
+      // The rebuilt history still undoes the branch's own steps
+      api.branch.switch(feature.id);
+      expect(api.temporal.position).toBe(2);
+      api.temporal.back(2);
+      expect(useStore.getState().count).toBe(2);
+      expect(useStore.getState().todos).toEqual({ a: { title: 'A', done: false } });
+    });
+
+    it('should report and drop steps that no longer apply', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      api.branch.switch(feature.id);
+      useStore.getState().toggle('a');
+      useStore.getState().increment();
+      api.branch.switch('main');
+      useStore.getState().remove('a');
+
+      const result = api.branch.rebase(feature.id, 'main');
+
+      expect(result.replayed).toEqual([2]);
+      expect(result.failed.map((f: any) => [f.position, f.path])).toEqual([[1, ['todos', 'a']]]);
+      const rebased = api.branch.list().find((b: any) => b.id === feature.id);
+      expect(rebased.currentState).toEqual({ todos: {}, count: 1 });
+      expect(rebased.currentPosition).toBe(1);
+    });
+
+    it('should update the store when the active branch is rebased', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      useStore.getState().add('b', 'B');
+      api.branch.switch(feature.id);
+      useStore.getState().increment();
+
+      api.branch.rebase(feature.id, 'main');
+
+      expect(useStore.getState().todos.b).toEqual({ title: 'B', done: false });
+      expect(useStore.getState().count).toBe(1);
+      expect(api.branch.active().parentBranchId).toBe('main');
+    });
+
+    it('should replay batched steps recorded on the live timeline', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      api.branch.switch(feature.id);
+      api.temporal.batch(() => {
+        useStore.getState().add('b', 'B');
+        useStore.getState().toggle('b');
+      });
+      api.branch.switch('main');
+      useStore.getState().increment();
+
+      const result = api.branch.rebase(feature.id, 'main');
+
+      expect(result.replayed).toEqual([1]);
+      const rebased = api.branch.list().find((b: any) => b.id === feature.id);
+      expect(rebased.currentState).toMatchObject({ count: 1, todos: { b: { title: 'B', done: true } } });
+    });
+
+    it('should refuse to rebase onto the branch itself or its descendants', async () => {
+      const useStore = createTodos();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      api.branch.switch(feature.id);
+      const child = api.branch.fork('child');
+
+      expect(() => api.branch.rebase(feature.id, feature.id)).toThrow('Cannot rebase');
+      expect(() => api.branch.rebase(feature.id, child.id)).toThrow('Cannot rebase');
+      expect(() => api.branch.rebase(feature.id, 'missing')).toThrow('not found');
+    });
+  });
+
+  describe('applyDiff', () => {
+    function createSettings() {
+      return create<any>(
+        (set) => ({
+          theme: 'light',
+          fontSize: 12,
+          flags: { beta: false } as Record<string, boolean>,
+          setTheme: (theme: string) => set({ theme }),
+          setFontSize: (fontSize: number) => set({ fontSize }),
+          setFlag: (name: string, on: boolean) => set((draft: any) => { draft.flags[name] = on; }),
+          clearFlag: (name: string) => set((draft: any) => { delete draft.flags[name]; }),
+        }),
+        { name: 'settings', devtools: false }
+      );
+    }
+
+    it('should apply selected paths as a single undoable step', async () => {
+      const useStore = createSettings();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const experiment = api.branch.fork('experiment');
+      api.branch.switch(experiment.id);
+      useStore.getState().setTheme('dark');
+      useStore.getState().setFontSize(16);
+      useStore.getState().setFlag('beta', true);
+      api.branch.switch('main');
+
+      const diff = api.branch.diff('main', experiment.id);
+      const applied = api.branch.applyDiff(diff, 'main', { paths: ['theme', 'flags'] });
+
+      expect(applied).toEqual([
+        { op: 'replace', path: '/theme', value: 'dark' },
+        { op: 'replace', path: '/flags/beta', value: true },
+      ]);
+      expect(useStore.getState()).toMatchObject({ theme: 'dark', fontSize: 12, flags: { beta: true } });
+      expect(api.temporal.position).toBe(1);
+
+      api.temporal.back();
+      expect(useStore.getState()).toMatchObject({ theme: 'light', flags: { beta: false } });
+    });
+
+    it('should copy additions and removals to an inactive branch', async () => {
+      const useStore = createSettings();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const target = api.branch.fork('target');
+      useStore.getState().clearFlag('beta');
+      useStore.getState().setFlag('compact', true);
+
+      const applied = api.branch.applyDiff(api.branch.diff(target.id, 'main'), target.id);
+
+      expect(applied.map((op: any) => [op.op, op.path])).toEqual([
+        ['remove', '/flags/beta'],
+        ['add', '/flags/compact'],
+      ]);
+      const branch = api.branch.list().find((b: any) => b.id === target.id);
+      expect(branch.currentState.flags).toEqual({ compact: true });
+      expect(branch.currentPosition).toBe(1);
+      expect(useStore.getState().flags).toEqual({ compact: true });
+    });
+
+    it('should accept JSON Patch operations', async () => {
+      const useStore = createSettings();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const other = api.branch.fork('other');
+      api.branch.switch(other.id);
+      useStore.getState().setFontSize(20);
+      api.branch.switch('main');
+
+      const ops = api.branch.diff('main', other.id, { format: 'json-patch' });
+      api.branch.applyDiff(ops, 'main');
+
+      expect(useStore.getState().fontSize).toBe(20);
+      expect(api.branch.applyDiff(ops, 'main', { paths: ['theme'] })).toEqual([]);
+      expect(api.temporal.position).toBe(1);
+    });
+
+    it('should apply keyed array changes that shift item indices', async () => {
+      const useStore = create<any>(
+        (set) => ({
+          list: [{ id: 1, tags: ['x', 'y'] }] as Array<{ id: number; tags?: string[] }>,
+          update: (fn: (draft: any) => void) => set(fn),
+        }),
+        { name: 'lists', devtools: false }
+      );
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const other = api.branch.fork('other');
+      api.branch.switch(other.id);
+      useStore.getState().update((draft: any) => {
+        draft.list.unshift({ id: 0 });
+        draft.list[1].tags.pop();
+      });
+      api.branch.switch('main');
+
+      api.branch.applyDiff(api.branch.diff('main', other.id, { arrayKey: 'id' }), 'main');
+      expect(useStore.getState().list).toEqual([{ id: 0 }, { id: 1, tags: ['x'] }]);
+    });
+
+    it('should refuse reordered keyed items unless given JSON Patch', async () => {
+      const useStore = create<any>(
+        (set) => ({
+          list: [{ id: 1, v: 'a' }, { id: 2, v: 'b' }],
+          note: '',
+          update: (fn: (draft: any) => void) => set(fn),
+        }),
+        { name: 'lists', devtools: false }
+      );
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const other = api.branch.fork('other');
+      api.branch.switch(other.id);
+      useStore.getState().update((draft: any) => {
+        draft.list.reverse();
+        draft.list[1].v = 'A';
+        draft.note = 'swapped';
+      });
+      api.branch.switch('main');
+
+      const diff = api.branch.diff('main', other.id, { arrayKey: 'id' });
+      expect(() => api.branch.applyDiff(diff, 'main')).toThrow('reordered items of "/list"');
+      expect(useStore.getState().list[0]).toEqual({ id: 1, v: 'a' });
+
+      // Paths away from the reordered array still apply
+      api.branch.applyDiff(diff, 'main', { paths: ['note'] });
+      expect(useStore.getState().note).toBe('swapped');
+
+      const ops = api.branch.diff('main', other.id, { arrayKey: 'id', format: 'json-patch' });
+      api.branch.applyDiff(ops, 'main', { paths: ['list'] });
+      expect(useStore.getState().list).toEqual([{ id: 2, v: 'b' }, { id: 1, v: 'A' }]);
+    });
+
+    it('should throw and change nothing when the diff does not fit the branch', async () => {
+      const useStore = createSettings();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const ops = [
+        { op: 'replace', path: '/theme', value: 'dark' },
+        { op: 'replace', path: '/missing/value', value: 1 },
+      ];
+
+      expect(() => api.branch.applyDiff(ops, 'main')).toThrow('Cannot apply diff to branch "main"');
+      expect(useStore.getState().theme).toBe('light');
+      expect(api.temporal.position).toBe(0);
+      expect(() => api.branch.applyDiff(ops, 'missing')).toThrow('not found');
+    });
+  });
+
+  describe('timeline config', () => {
+    function createCounterWith(timeline: Record<string, unknown>) {
+      return create<any>(
+        (set) => ({
+          count: 0,
+          increment: () => set(function increment(draft: any) { draft.count += 1; }),
+          setCount: (count: number) => set({ count }),
+        }),
+        { name: 'counter', devtools: false, timeline }
+      );
+    }
+
+    function run(useStore: any, steps: number) {
+      for (let i = 0; i < steps; i++) useStore.getState().increment();
+    }
+
+    it('should keep the store maxHistory across repeated switches', async () => {
+      const useStore = createCounterWith({ maxHistory: 1000 });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      run(useStore, 300);
+      const feature = api.branch.fork('feature');
+      for (let i = 0; i < 5; i++) {
+        api.branch.switch(feature.id);
+        run(useStore, 150);
+        api.branch.switch('main');
+      }
+
+      expect(api.temporal.position).toBe(300);
+      api.temporal.back(300);
+      expect(useStore.getState().count).toBe(0);
+
+      api.branch.switch(feature.id);
+      expect(api.temporal.position).toBe(750);
+      expect(useStore.getState().count).toBe(1050);
+      api.temporal.back(750);
+      expect(useStore.getState().count).toBe(300);
+    });
+
+    it('should keep batching and coalescing after a switch', async () => {
+      const useStore = createCounterWith({ coalesce: { actions: ['increment'], windowMs: 60_000 } });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      api.branch.switch(feature.id);
+      api.branch.switch('main');
+      api.branch.switch(feature.id);
+
+      api.temporal.batch(() => {
+        useStore.getState().setCount(10);
+        useStore.getState().setCount(20);
+        useStore.getState().setCount(30);
+      });
+      expect(api.temporal.position).toBe(1);
+
+      run(useStore, 3);
+      expect(api.temporal.position).toBe(2);
+      expect(useStore.getState().count).toBe(33);
+
+      api.temporal.back();
+      expect(useStore.getState().count).toBe(30);
+      api.temporal.back();
+      expect(useStore.getState().count).toBe(0);
+    });
+
+    it('should merge branch overrides over the whole timeline config', async () => {
+      const useStore = createCounterWith({ maxHistory: 1000 });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const grouped = api.branch.fork('grouped', {
+        timeline: { coalesce: { actions: ['increment'], windowMs: 60_000 } },
+      });
+      const untracked = api.branch.fork('untracked', { timeline: { ignore: ['count'] } });
+
+      api.branch.switch(grouped.id);
+      run(useStore, 3);
+      expect(api.temporal.position).toBe(1);
+
+      api.branch.switch(untracked.id);
+      run(useStore, 3);
+      expect(api.temporal.position).toBe(0);
+      expect(useStore.getState().count).toBe(3);
+
+      api.branch.switch('main');
+      run(useStore, 3);
+      expect(api.temporal.position).toBe(3);
+
+      api.branch.switch(untracked.id);
+      expect(useStore.getState().count).toBe(3);
+    });
+
+    it('should apply per-branch overrides given at fork time', async () => {
+      const useStore = createCounterWith({ maxHistory: 1000 });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const small = api.branch.fork('small', { timeline: { maxHistory: 5 } });
+      expect(small.timeline).toEqual({ maxHistory: 5 });
+
+      api.branch.switch(small.id);
+      run(useStore, 20);
+      expect(api.temporal.position).toBe(5);
+
+      // Forks of the branch inherit its overrides
+      const child = api.branch.fork('child');
+      expect(child.timeline).toEqual({ maxHistory: 5 });
+
+      api.branch.switch('main');
+      run(useStore, 200);
+      api.branch.switch(small.id);
+      api.branch.switch('main');
+      expect(api.temporal.position).toBe(200);
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    function createHooked(branching: BranchingConfig) {
+      return create<any>(
+        (set) => ({
+          count: 0,
+          increment: () => set((draft: any) => { draft.count += 1; }),
+        }),
+        { name: 'counter', devtools: false, branching }
+      );
+    }
+
+    it('should call onFork and onDelete and emit fork/delete events', async () => {
+      const calls: string[] = [];
+      const useStore = createHooked({
+        onFork: (branch, parent) => calls.push(`fork ${branch.name} from ${parent.name}`),
+        onDelete: (branch) => calls.push(`delete ${branch.name}`),
+      });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const events: any[] = [];
+      const unsub = bridge.onAny((event) => events.push(event));
+      const feature = api.branch.fork('feature');
+      api.branch.delete(feature.id);
+      unsub();
+
+      expect(calls).toEqual(['fork feature from main', 'delete feature']);
+      expect(events.map((e) => e.type)).toEqual([
+        'branch:update',
+        'branch:fork',
+        'branch:update',
+        'branch:delete',
+      ]);
+      expect(events[1].payload).toMatchObject({ branchId: feature.id, parentBranchId: 'main' });
+      expect(events[3].payload).toMatchObject({ branchId: feature.id, activeBranchId: 'main' });
+    });
+
+    it('should let onBeforeSwitch cancel a switch', async () => {
+      const after: string[] = [];
+      const useStore = createHooked({
+        onBeforeSwitch: (_from, to) => to.name !== 'locked',
+        onAfterSwitch: (from, to) => after.push(`${from.name} -> ${to.name}`),
+      });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const locked = api.branch.fork('locked');
+      const open = api.branch.fork('open');
+
+      expect(api.branch.switch(locked.id)).toBe(false);
+      expect(api.branch.active().id).toBe('main');
+      expect(api.branch.switch(open.id)).toBe(true);
+      expect(api.branch.active().id).toBe(open.id);
+      expect(after).toEqual(['main -> open']);
+    });
+
+    it('should wait for an async onBeforeSwitch', async () => {
+      let release!: () => void;
+      const after: any[] = [];
+      const useStore = createHooked({
+        onBeforeSwitch: () => new Promise<void>((resolve) => { release = resolve; }),
+        onAfterSwitch: (from, to) => after.push([from.id, to.id]),
+      });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      const feature = api.branch.fork('feature');
+      const events: any[] = [];
+      const unsub = bridge.on('branch:switch', (event) => events.push(event.payload));
+
+      const pending = api.branch.switch(feature.id);
+      expect(pending).toBeInstanceOf(Promise);
+      expect(api.branch.active().id).toBe('main');
+
+      release();
+      await expect(pending).resolves.toBe(true);
+      unsub();
+
+      expect(api.branch.active().id).toBe(feature.id);
+      expect(after).toEqual([['main', feature.id]]);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ from: 'main', to: feature.id, activeBranchId: feature.id });
+    });
+
+    it('should jump to a mark on another branch once an async switch is allowed', async () => {
+      const useStore = createHooked({ onBeforeSwitch: async () => true });
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      useStore.getState().increment();
+      api.temporal.mark('one');
+      useStore.getState().increment();
+      const feature = api.branch.fork('feature');
+      await api.branch.switch(feature.id);
+
+      await api.temporal.goToMark('one');
+      expect(api.branch.active().id).toBe('main');
+      expect(useStore.getState().count).toBe(1);
+    });
+  });
+
+  describe('tree and ancestry', () => {
+    /**
+     * main ──●──●──●
+     *           ├─ feature (at 2) ──●──●
+     *           │                       └─ fix (at 1)
+     *           └─ spike (at 2)
+     */
+    async function createTree() {
+      const useStore = createCounter();
+      const api = useStore as any;
+      await new Promise((r) => queueMicrotask(r));
+
+      useStore.getState().increment();
+      useStore.getState().increment();
+      const feature = api.branch.fork('feature');
+      const spike = api.branch.fork('spike');
+      useStore.getState().increment();
+
+      api.branch.switch(feature.id);
+      useStore.getState().increment();
+      const fix = api.branch.fork('fix');
+      useStore.getState().increment();
+
+      return { api, feature, spike, fix };
+    }
+
+    it('should build the branch tree', async () => {
+      const { api, feature, spike, fix } = await createTree();
+
+      const [main] = api.branch.tree();
+      expect(main.name).toBe('main');
+      expect(main.length).toBe(3);
+      expect(main.children.map((c: any) => c.id)).toEqual([feature.id, spike.id]);
+      expect(main.children[0]).toMatchObject({ forkPoint: 2, length: 2, active: true });
+      expect(main.children[0].children.map((c: any) => c.id)).toEqual([fix.id]);
+      expect(main.children[0].children[0].forkPoint).toBe(1);
+    });
+
+    it('should list ancestors and descendants', async () => {
+      const { api, feature, spike, fix } = await createTree();
+
+      expect(api.branch.ancestors(fix.id).map((b: any) => b.name)).toEqual(['feature', 'main']);
+      expect(api.branch.ancestors('main')).toEqual([]);
+      expect(api.branch.descendants('main').map((b: any) => b.id)).toEqual([feature.id, fix.id, spike.id]);
+      expect(api.branch.descendants(spike.id)).toEqual([]);
+      expect(() => api.branch.ancestors('missing')).toThrow('not found');
+    });
+
+    it('should find the common ancestor and where the lines part', async () => {
+      const { api, feature, spike, fix } = await createTree();
+
+      const siblings = api.branch.commonAncestor(fix.id, spike.id);
+      expect(siblings.branch.name).toBe('main');
+      expect(siblings.position).toBe(2);
+
+      const nested = api.branch.commonAncestor(fix.id, feature.id);
+      expect(nested.branch.id).toBe(feature.id);
+      expect(nested.position).toBe(1);
+
+      expect(api.branch.commonAncestor(fix.id, fix.id).branch.id).toBe(fix.id);
+    });
+
+    it('should show branches whose parent was deleted as roots', async () => {
+      const { api, feature, fix } = await createTree();
+
+      api.branch.switch('main');
+      api.branch.delete(feature.id);
+
+      const roots = api.branch.tree().map((n: any) => n.id);
+      expect(roots).toEqual(['main', fix.id]);
+      expect(api.branch.commonAncestor(fix.id, 'main')).toBeNull();
+    });
+  });
 });
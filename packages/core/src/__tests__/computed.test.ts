@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { snapshot } from '../snapshot';
+import { separateStateAndActions } from '../utils';
+
+beforeEach(() => {
+  registry.clear();
+});
+
+describe('computed', () => {
+  function createCart(totalSpy = vi.fn()) {
+    return create<any>(
+      (set) => ({
+        items: [] as number[],
+        label: 'cart',
+        add: (price: number) => set((draft: any) => { draft.items.push(price); }),
+        rename: (label: string) => set({ label }),
+      }),
+      {
+        name: 'cart',
+        devtools: false,
+        computed: {
+          total: (state) => {
+            totalSpy();
+            return state.items.reduce((sum: number, n: number) => sum + n, 0);
+          },
+          count: (state) => state.items.length,
+        },
+      }
+    );
+  }
+
+  it('should expose computed values from the start', () => {
+    const useStore = createCart();
+    expect(useStore.getState().total).toBe(0);
+    expect(useStore.getState().count).toBe(0);
+  });
+
+  it('should recompute after set, undo and redo', () => {
+    const useStore = createCart();
+    const api = useStore as any;
+
+    useStore.getState().add(5);
+    useStore.getState().add(7);
+    expect(useStore.getState().total).toBe(12);
+
+    api.temporal.back();
+    expect(useStore.getState().total).toBe(5);
+
+    api.temporal.forward();
+    expect(useStore.getState().total).toBe(12);
+  });
+
+  it('should only rerun when a dependency changes', () => {
+    const totalSpy = vi.fn();
+    const useStore = createCart(totalSpy);
+    totalSpy.mockClear();
+
+    useStore.getState().rename('groceries');
+    expect(totalSpy).not.toHaveBeenCalled();
+
+    useStore.getState().add(3);
+    expect(totalSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep computed values out of history and separateStateAndActions', () => {
+    const useStore = createCart();
+    const api = useStore as any;
+
+    useStore.getState().add(5);
+    const { state, actions } = separateStateAndActions(useStore.getState());
+    expect(state).toEqual({ items: [5], label: 'cart' });
+    expect(actions).not.toHaveProperty('total');
+
+    const history = api.temporal.getHistory();
+    expect(history[history.length - 1]).not.toHaveProperty('total');
+    expect(api.inspector.getActionLog().every((e: any) =>
+      e.patches.every((p: any) => p.path[0] !== 'total' && p.path[0] !== 'count')
+    )).toBe(true);
+  });
+
+  it('should recompute after a branch switch', async () => {
+    const useStore = createCart();
+    const api = useStore as any;
+    await new Promise((r) => queueMicrotask(r));
+
+    const experiment = api.branch.fork('experiment');
+    api.branch.switch(experiment.id);
+    useStore.getState().add(10);
+    expect(useStore.getState().total).toBe(10);
+
+    api.branch.switch('main');
+    expect(useStore.getState().total).toBe(0);
+    expect(api.branch.list().every((b: any) => !('total' in b.currentState))).toBe(true);
+  });
+
+  it('should leave computed values out of snapshots', () => {
+    const useStore = createCart();
+    useStore.getState().add(2);
+
+    const data = snapshot.exportAll();
+    expect(data.stores.cart).toEqual({ items: [2], label: 'cart' });
+  });
+
+  it('should recompute when state is set directly', () => {
+    const useStore = createCart();
+    useStore.setState({ items: [1, 2, 3] });
+    expect(useStore.getState().total).toBe(6);
+    expect(useStore.getState().count).toBe(3);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+
+function mockExtension() {
+  let listener: ((message: any) => void) | null = null;
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    subscribe: vi.fn((fn: (message: any) => void) => {
+      listener = fn;
+      return () => { listener = null; };
+    }),
+  };
+  return {
+    extension: { connect: vi.fn(() => connection) },
+    connection,
+    dispatch(payload: Record<string, unknown>) {
+      listener?.({ type: 'DISPATCH', payload });
+    },
+  };
+}
+
+function createCounter() {
+  return create<{ count: number; increment: () => void }>(
+    (set) => ({
+      count: 0,
+      increment: () => set((draft: any) => { draft.count += 1; }),
+    }),
+    { name: 'counter' }
+  );
+}
+
+describe('devtools connector', () => {
+  let devtools: ReturnType<typeof mockExtension>;
+
+  beforeEach(() => {
+    registry.clear();
+    devtools = mockExtension();
+    vi.stubGlobal('__REDUX_DEVTOOLS_EXTENSION__', devtools.extension);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should connect with the store name and send each change', () => {
+    const useStore = createCounter();
+
+    expect(devtools.extension.connect).toHaveBeenCalledWith({ name: 'counter' });
+    expect(devtools.connection.init).toHaveBeenCalledWith({ count: 0 });
+
+    useStore.getState().increment();
+    expect(devtools.connection.send).toHaveBeenCalledTimes(1);
+    expect(devtools.connection.send.mock.calls[0][1]).toEqual({ count: 1 });
+  });
+
+  it('should map JUMP_TO_ACTION onto temporal.go', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+
+    useStore.getState().increment();
+    useStore.getState().increment();
+    useStore.getState().increment();
+
+    devtools.dispatch({ type: 'JUMP_TO_ACTION', actionId: 1 });
+    expect(useStore.getState().count).toBe(1);
+    expect(api.temporal.position).toBe(1);
+
+    devtools.dispatch({ type: 'JUMP_TO_STATE', actionId: 3 });
+    expect(api.temporal.position).toBe(3);
+    expect(useStore.getState().count).toBe(3);
+
+    // Jumps are not echoed back as new DevTools actions
+    expect(devtools.connection.send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should make the current state the new start on COMMIT', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+
+    useStore.getState().increment();
+    useStore.getState().increment();
+    devtools.dispatch({ type: 'COMMIT' });
+
+    expect(api.temporal.position).toBe(0);
+    expect(api.temporal.canBack()).toBe(false);
+    expect(devtools.connection.init).toHaveBeenLastCalledWith({ count: 2 });
+
+    useStore.getState().increment();
+    devtools.dispatch({ type: 'ROLLBACK' });
+    expect(useStore.getState().count).toBe(2);
+  });
+
+  it('should reset the timeline on ROLLBACK', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+
+    useStore.getState().increment();
+    devtools.dispatch({ type: 'ROLLBACK' });
+
+    expect(useStore.getState().count).toBe(0);
+    expect(api.temporal.position).toBe(0);
+    expect(devtools.connection.init).toHaveBeenLastCalledWith({ count: 0 });
+  });
+
+  it('should import a DevTools session onto a new branch', async () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+    await new Promise((r) => queueMicrotask(r));
+
+    const nextLiftedState = {
+      computedStates: [{ state: { count: 10 } }, { state: { count: 11 } }, { state: { count: 12 } }],
+      currentStateIndex: 1,
+    };
+    devtools.dispatch({ type: 'IMPORT_STATE', nextLiftedState });
+
+    expect(api.branch.active().name).toBe('devtools-import');
+    expect(api.temporal.position).toBe(1);
+    expect(useStore.getState().count).toBe(11);
+    expect(devtools.connection.send).toHaveBeenLastCalledWith(null, nextLiftedState);
+
+    devtools.dispatch({ type: 'JUMP_TO_ACTION', actionId: 2 });
+    expect(useStore.getState().count).toBe(12);
+
+    api.branch.switch('main');
+    expect(useStore.getState().count).toBe(0);
+  });
+
+  it('should restart the DevTools history on branch switch', async () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+    await new Promise((r) => queueMicrotask(r));
+
+    useStore.getState().increment();
+    const branch = api.branch.fork('experiment');
+    api.branch.switch(branch.id);
+
+    expect(devtools.connection.init).toHaveBeenLastCalledWith({ count: 1 });
+  });
+
+  it('should not connect when devtools is disabled', () => {
+    create(() => ({ count: 0 }), { devtools: false });
+    expect(devtools.extension.connect).not.toHaveBeenCalled();
+  });
+});
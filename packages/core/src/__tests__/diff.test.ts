@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { applyJsonPatch, diffAsJsonPatch, diffStates } from '../diff';
+
+beforeEach(() => {
+  registry.clear();
+});
+
+describe('diffStates', () => {
+  it('should detect added keys', () => {
+    const diff = diffStates({ a: 1 }, { a: 1, b: 2 });
+    expect(diff.added).toEqual([{ path: ['b'], value: 2 }]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('should detect removed keys', () => {
+    const diff = diffStates({ a: 1, b: 2 }, { a: 1 });
+    expect(diff.removed).toEqual([{ path: ['b'], value: 2 }]);
+  });
+
+  it('should detect changed values', () => {
+    const diff = diffStates({ a: 1 }, { a: 2 });
+    expect(diff.changed).toEqual([{ path: ['a'], from: 1, to: 2 }]);
+  });
+
+  it('should handle nested objects', () => {
+    const diff = diffStates(
+      { user: { name: 'Alice', age: 30 } },
+      { user: { name: 'Bob', age: 30 } }
+    );
+    expect(diff.changed).toEqual([{ path: ['user', 'name'], from: 'Alice', to: 'Bob' }]);
+  });
+
+  it('should detect no differences for equal objects', () => {
+    const diff = diffStates({ a: 1, b: { c: 3 }, at: new Date(0) }, { a: 1, b: { c: 3 }, at: new Date(0) });
+    expect(diff).toEqual({ added: [], removed: [], changed: [], moved: [] });
+  });
+
+  it('should compare arrays item by item', () => {
+    const diff = diffStates({ tags: ['a', 'b'] }, { tags: ['a', 'c', 'd'] });
+    expect(diff.changed).toEqual([{ path: ['tags', '1'], from: 'b', to: 'c' }]);
+    expect(diff.added).toEqual([{ path: ['tags', '2'], value: 'd' }]);
+  });
+
+  it('should match array items by key', () => {
+    const before = {
+      todos: [
+        { id: 1, title: 'A', done: false },
+        { id: 2, title: 'B', done: false },
+        { id: 3, title: 'C', done: false },
+      ],
+    };
+    const after = {
+      todos: [
+        { id: 0, title: 'New', done: false },
+        { id: 1, title: 'A', done: true },
+        { id: 3, title: 'C', done: false },
+      ],
+    };
+
+    const diff = diffStates(before, after, { arrayKey: 'id' });
+
+    expect(diff.added).toEqual([{ path: ['todos', '0'], value: { id: 0, title: 'New', done: false } }]);
+    expect(diff.removed).toEqual([{ path: ['todos', '1'], value: { id: 2, title: 'B', done: false } }]);
+    expect(diff.changed).toEqual([{ path: ['todos', '1', 'done'], from: false, to: true }]);
+    expect(diff.moved).toEqual([]);
+  });
+
+  it('should report reordered items as moves', () => {
+    const items = (ids: number[]) => ids.map((id) => ({ id }));
+    const diff = diffStates({ list: items([1, 2, 3, 4]) }, { list: items([2, 3, 4, 1]) }, { arrayKey: 'id' });
+
+    expect(diff.moved).toEqual([{ path: ['list', '3'], from: 0, to: 3 }]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('should accept a key function', () => {
+    const diff = diffStates(
+      { users: [{ email: 'a@x' }, { email: 'b@x' }] },
+      { users: [{ email: 'b@x' }, { email: 'a@x' }] },
+      { arrayKey: (item: any) => item.email }
+    );
+    expect(diff.moved.length).toBe(1);
+    expect(diff.changed).toEqual([]);
+  });
+});
+
+describe('diffAsJsonPatch', () => {
+  const cases: Array<[string, unknown, unknown]> = [
+    ['objects', { a: 1, b: { c: 2, d: 3 } }, { a: 2, b: { c: 2, e: 4 } }],
+    ['growing arrays', { list: [1, 2] }, { list: [1, 3, 4, 5] }],
+    ['shrinking arrays', { list: [1, 2, 3, 4] }, { list: [9] }],
+    ['type changes', { v: [1] }, { v: { 0: 1 } }],
+    [
+      'keyed arrays',
+      { list: [{ id: 'a', n: 1 }, { id: 'b', n: 2 }, { id: 'c', n: 3 }, { id: 'd', n: 4 }] },
+      { list: [{ id: 'd', n: 4 }, { id: 'e', n: 5 }, { id: 'b', n: 20 }, { id: 'a', n: 1 }] },
+    ],
+  ];
+
+  for (const [name, before, after] of cases) {
+    it(`should turn one state into the other (${name})`, () => {
+      const ops = diffAsJsonPatch(before, after, { arrayKey: 'id' });
+      expect(applyJsonPatch(before, ops)).toEqual(after);
+    });
+  }
+
+  it('should move keyed items instead of rewriting them', () => {
+    const ops = diffAsJsonPatch(
+      { list: [{ id: 1 }, { id: 2 }] },
+      { list: [{ id: 2 }, { id: 1 }] },
+      { arrayKey: 'id' }
+    );
+    expect(ops).toEqual([{ op: 'move', from: '/list/1', path: '/list/0' }]);
+  });
+
+  it('should escape JSON Pointer characters in keys', () => {
+    const ops = diffAsJsonPatch({}, { 'a/b~c': 1 });
+    expect(ops).toEqual([{ op: 'add', path: '/a~1b~0c', value: 1 }]);
+    expect(applyJsonPatch({}, ops)).toEqual({ 'a/b~c': 1 });
+  });
+
+  it('should not modify the state it is applied to', () => {
+    const before = { list: [1, 2] };
+    applyJsonPatch(before, [{ op: 'remove', path: '/list/0' }]);
+    expect(before).toEqual({ list: [1, 2] });
+  });
+});
+
+describe('branch.diff formats', () => {
+  function createTodos(arrayKey?: string) {
+    return create<any>(
+      (set) => ({
+        todos: [{ id: 1, title: 'A', done: false }, { id: 2, title: 'B', done: false }],
+        toggle: (id: number) =>
+          set((draft: any) => {
+            const todo = draft.todos.find((t: any) => t.id === id);
+            todo.done = !todo.done;
+          }),
+        remove: (id: number) =>
+          set((draft: any) => {
+            draft.todos = draft.todos.filter((t: any) => t.id !== id);
+          }),
+      }),
+      { name: 'todos', devtools: false, branching: { arrayKey } }
+    );
+  }
+
+  it('should return JSON Patch that turns branch A into branch B', async () => {
+    const useStore = createTodos();
+    const api = useStore as any;
+    await new Promise((r) => queueMicrotask(r));
+
+    const branch = api.branch.fork('edit');
+    api.branch.switch(branch.id);
+    useStore.getState().remove(1);
+    useStore.getState().toggle(2);
+    api.branch.switch('main');
+
+    const ops = api.branch.diff('main', branch.id, { format: 'json-patch', arrayKey: 'id' });
+    expect(ops).toEqual([
+      { op: 'remove', path: '/todos/0' },
+      { op: 'replace', path: '/todos/0/done', value: true },
+    ]);
+
+    const main = api.branch.list().find((b: any) => b.id === 'main');
+    const edited = api.branch.list().find((b: any) => b.id === branch.id);
+    expect(applyJsonPatch(main.currentState, ops)).toEqual(edited.currentState);
+  });
+
+  it('should use the store\'s default array key', async () => {
+    const useStore = createTodos('id');
+    const api = useStore as any;
+    await new Promise((r) => queueMicrotask(r));
+
+    const branch = api.branch.fork('edit');
+    api.branch.switch(branch.id);
+    useStore.getState().remove(1);
+    api.branch.switch('main');
+
+    const diff = api.branch.diff('main', branch.id);
+    expect(diff.removed).toEqual([{ path: ['todos', '0'], value: { id: 1, title: 'A', done: false } }]);
+    expect(diff.changed).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { globalTimeline } from '../globalTimeline';
+
+beforeEach(() => {
+  registry.clear();
+  globalTimeline.clear();
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('globalTimeline history', () => {
+  function createStores() {
+    const counter = create<{ count: number; increment: () => void }>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'counter', devtools: false }
+    );
+    const todo = create<{ todos: string[]; add: (text: string) => void }>(
+      (set) => ({
+        todos: [],
+        add: (text: string) => set((draft: any) => { draft.todos.push(text); }),
+      }),
+      { name: 'todo', devtools: false }
+    );
+    return { counter: counter as any, todo: todo as any };
+  }
+
+  /** Run actions one millisecond apart so wall-clock order is unambiguous */
+  function step(fn: () => void) {
+    vi.setSystemTime(Date.now() + 1);
+    fn();
+  }
+
+  it('should merge every store history in wall-clock order', () => {
+    const { counter, todo } = createStores();
+
+    step(() => counter.getState().increment());
+    step(() => todo.getState().add('a'));
+    step(() => counter.getState().increment());
+
+    const history = globalTimeline.getHistory();
+    expect(history.map((e) => e.storeName)).toEqual(['counter', 'todo', 'counter']);
+    expect(history.map((e) => e.position)).toEqual([1, 1, 2]);
+  });
+
+  it('should put every store back to its state at a global index', () => {
+    const { counter, todo } = createStores();
+
+    step(() => counter.getState().increment()); // 0
+    step(() => todo.getState().add('a'));       // 1
+    step(() => counter.getState().increment()); // 2
+    step(() => todo.getState().add('b'));       // 3
+
+    globalTimeline.go(1);
+    expect(counter.getState().count).toBe(1);
+    expect(todo.getState().todos).toEqual(['a']);
+
+    globalTimeline.go(0);
+    expect(counter.getState().count).toBe(1);
+    expect(todo.getState().todos).toEqual([]);
+
+    globalTimeline.go(3);
+    expect(counter.getState().count).toBe(2);
+    expect(todo.getState().todos).toEqual(['a', 'b']);
+  });
+
+  it('should not append scrubbing to the history', () => {
+    const { counter, todo } = createStores();
+
+    step(() => counter.getState().increment());
+    step(() => todo.getState().add('a'));
+
+    globalTimeline.go(0);
+    expect(globalTimeline.getHistory().length).toBe(2);
+    expect(counter.inspector.getActionLog().length).toBe(1);
+  });
+
+  it('should query every store and merge the matches by time', () => {
+    const { counter, todo } = createStores();
+
+    step(() => counter.getState().increment());
+    step(() => todo.getState().add('milk'));
+    step(() => counter.getState().increment());
+
+    const all = globalTimeline.query({ actionName: '/' });
+    expect(all.map((e) => e.actionName)).toEqual(['counter/increment', 'todo/add', 'counter/increment']);
+
+    const todos = globalTimeline.query({ storeIds: [todo.__id] });
+    expect(todos.map((e) => e.storeName)).toEqual(['todo']);
+  });
+
+  it('should switch back to the branch an entry was recorded on', async () => {
+    const { counter } = createStores();
+    await new Promise((r) => queueMicrotask(r));
+
+    step(() => counter.getState().increment());
+    const branch = counter.branch.fork('experiment');
+    counter.branch.switch(branch.id);
+    step(() => counter.getState().increment());
+    step(() => counter.getState().increment());
+    counter.branch.switch('main');
+    step(() => counter.getState().increment());
+
+    const history = globalTimeline.getHistory();
+    const onBranch = history.map((e) => e.branchId).lastIndexOf(branch.id);
+    expect(history[onBranch].position).toBe(2);
+
+    globalTimeline.go(onBranch);
+    expect(counter.branch.active().id).toBe(branch.id);
+    expect(counter.getState().count).toBe(3);
+
+    globalTimeline.go(0);
+    expect(counter.branch.active().id).toBe('main');
+    expect(counter.getState().count).toBe(1);
+
+    // Entries of a deleted branch leave the store where it is
+    counter.branch.delete(branch.id);
+    globalTimeline.go(onBranch);
+    expect(counter.branch.active().id).toBe('main');
+    expect(counter.getState().count).toBe(1);
+  });
+
+  it('should reject out-of-range indexes', () => {
+    createStores();
+    expect(() => globalTimeline.go(0)).toThrow('out of range');
+  });
+});
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { create } from '../createStore';
 import { registry } from '../registry';
+import { serializer } from '../serializer';
+import { createMemoryStorage } from '../storage';
+import type { InspectorConfig, InspectorStorage } from '../types';
 
 beforeEach(() => {
   registry.clear();
@@ -35,8 +38,62 @@ describe('inspector middleware', () => {
     useStore.getState().increment();
 
     const log = api.inspector.getActionLog();
-    expect(log[0].actionName).toBeDefined();
-    expect(typeof log[0].actionName).toBe('string');
+    expect(log[0].actionName).toBe('counter/increment');
+  });
+
+  it('should record the arguments of the action call', () => {
+    const useStore = create<any>(
+      (set) => ({
+        count: 0,
+        add: (by: number) => set((draft: any) => { draft.count += by; }),
+      }),
+      { name: 'counter', devtools: false }
+    );
+    const api = useStore as any;
+
+    useStore.getState().add(5);
+
+    const [entry] = api.inspector.getActionLog();
+    expect(entry.actionName).toBe('counter/add');
+    expect(entry.args).toEqual([5]);
+  });
+
+  it('should record a call stack for nested actions', () => {
+    const useStore = create<any>(
+      (set, get) => ({
+        items: [] as string[],
+        add: (item: string) => set((draft: any) => { draft.items.push(item); }),
+        addMany: (items: string[]) => items.forEach((item) => get().add(item)),
+      }),
+      { name: 'list', devtools: false }
+    );
+    const api = useStore as any;
+
+    useStore.getState().addMany(['a', 'b']);
+
+    const log = api.inspector.getActionLog();
+    expect(log.map((e: any) => e.actionName)).toEqual(['list/add', 'list/add']);
+    expect(log[1].args).toEqual(['b']);
+    expect(log[1].callStack).toEqual(['list/addMany', 'list/add']);
+    expect(log[0].correlationId).toBe(log[1].correlationId);
+  });
+
+  it('should name set() calls made outside actions by the keys they set', () => {
+    let outerSet: any;
+    const useStore = create<any>(
+      (set) => {
+        outerSet = set;
+        return { count: 0 };
+      },
+      { name: 'counter', devtools: false }
+    );
+    const api = useStore as any;
+
+    outerSet({ count: 3 });
+
+    const [entry] = api.inspector.getActionLog();
+    expect(entry.actionName).toBe('set(count)');
+    expect(entry.callStack).toBeUndefined();
   });
 
   it('should record patches', () => {
@@ -96,7 +153,7 @@ describe('inspector middleware', () => {
     expect(entries[0].actionName).toBeDefined();
   });
 
-  it('should limit log entries to MAX_LOG_ENTRIES', () => {
+  it('should limit the log to 200 entries by default', () => {
     const useStore = create<{ count: number }>(
       (set) => ({ count: 0 }),
       { name: 'limit-test', devtools: false }
@@ -112,3 +169,323 @@ describe('inspector middleware', () => {
     expect(log.length).toBeLessThanOrEqual(200);
   });
 });
+
+describe('inspector retention', () => {
+  function createCounter(inspector: InspectorConfig) {
+    return create<any>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'counter', devtools: false, inspector }
+    );
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep at most maxEntries entries', () => {
+    const useStore = createCounter({ maxEntries: 3 });
+    const api = useStore as any;
+
+    for (let i = 0; i < 5; i++) useStore.getState().increment();
+
+    const log = api.inspector.getActionLog();
+    expect(log.length).toBe(3);
+    expect(log[0].patches[0].value).toBe(3);
+  });
+
+  it('should drop the oldest entries beyond maxBytes', () => {
+    const useStore = createCounter({ maxBytes: 1000 });
+    const api = useStore as any;
+
+    for (let i = 0; i < 50; i++) useStore.getState().increment();
+
+    const log = api.inspector.getActionLog();
+    expect(log.length).toBeGreaterThan(0);
+    expect(log.length).toBeLessThan(50);
+    expect(serializer.stringify(log).length).toBeLessThanOrEqual(1000);
+  });
+
+  it('should drop entries older than maxAge', () => {
+    vi.useFakeTimers();
+    const useStore = createCounter({ maxAge: 1000 });
+    const api = useStore as any;
+
+    useStore.getState().increment();
+    vi.advanceTimersByTime(600);
+    useStore.getState().increment();
+    vi.advanceTimersByTime(600);
+
+    const log = api.inspector.getActionLog();
+    expect(log.length).toBe(1);
+    expect(log[0].patches[0].value).toBe(2);
+  });
+
+  it('should restore a persisted log after a reload', () => {
+    vi.useFakeTimers();
+    const data = new Map<string, string>();
+    const storage: InspectorStorage = {
+      getItem: (key) => data.get(key) ?? null,
+      setItem: (key, value) => { data.set(key, value); },
+      removeItem: (key) => { data.delete(key); },
+    };
+
+    const first = createCounter({ persist: true, storage });
+    first.getState().increment();
+    first.getState().increment();
+    vi.runAllTimers();
+    expect(data.has('state-sdk:inspector:counter')).toBe(true);
+
+    registry.clear();
+    const reloaded = createCounter({ persist: true, storage }) as any;
+
+    const log = reloaded.inspector.getActionLog();
+    expect(log.map((e: any) => e.actionName)).toEqual(['counter/increment', 'counter/increment']);
+  });
+});
+
+describe('inspector sessions', () => {
+  function createTodos() {
+    return create<any>(
+      (set) => ({
+        todos: [] as Array<{ text: string; due: Date }>,
+        add: (text: string, due: Date) => set((draft: any) => { draft.todos.push({ text, due }); }),
+      }),
+      { name: 'todos', devtools: false, version: 2 }
+    );
+  }
+
+  it('should export entries with the starting state and store metadata', () => {
+    const useStore = createTodos();
+    const api = useStore as any;
+
+    useStore.getState().add('a', new Date(0));
+    useStore.getState().add('b', new Date(0));
+
+    const session = api.inspector.export();
+    expect(session.format).toBe('state-sdk/inspector-session');
+    expect(session.version).toBe(1);
+    expect(session.store).toEqual({ id: api.__id, name: 'todos', version: 2 });
+    expect(session.initialState).toEqual({ todos: [] });
+    expect(session.entries.map((e: any) => e.args[0])).toEqual(['a', 'b']);
+  });
+
+  it('should move the starting state forward as old entries are dropped', () => {
+    const useStore = create<any>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'counter', devtools: false, inspector: { maxEntries: 2 } }
+    );
+    const api = useStore as any;
+
+    for (let i = 0; i < 4; i++) useStore.getState().increment();
+
+    expect(api.inspector.export().initialState).toEqual({ count: 2 });
+  });
+
+  it('should load an exported session file into another store instance', () => {
+    const recorded = createTodos() as any;
+    recorded.getState().add('a', new Date('2024-01-01T00:00:00.000Z'));
+    const file = serializer.stringify(recorded.inspector.export());
+
+    registry.clear();
+    const viewer = createTodos() as any;
+    viewer.inspector.import(file);
+
+    const log = viewer.inspector.getActionLog();
+    expect(log.length).toBe(1);
+    expect(log[0].args[1]).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(viewer.inspector.export().initialState).toEqual({ todos: [] });
+    // The viewer's own state is untouched
+    expect(viewer.getState().todos).toEqual([]);
+  });
+
+  it('should reject sessions from other stores or formats', () => {
+    const useStore = createTodos();
+    const api = useStore as any;
+    const session = api.inspector.export();
+
+    expect(() => api.inspector.import({ ...session, store: { ...session.store, name: 'cart' } })).toThrow(
+      'recorded on store "cart"'
+    );
+    expect(() => api.inspector.import({ stores: {} })).toThrow('Not an inspector session');
+  });
+});
+
+describe('inspector query', () => {
+  function createProfile(inspector?: InspectorConfig) {
+    return create<any>(
+      (set) => ({
+        user: { name: 'ada', email: 'ada@example.com' },
+        theme: 'light',
+        rename: (name: string) => set((draft: any) => { draft.user.name = name; }),
+        setEmail: (email: string) => set((draft: any) => { draft.user.email = email; }),
+        toggleTheme: () => set((draft: any) => { draft.theme = draft.theme === 'light' ? 'dark' : 'light'; }),
+      }),
+      { name: 'profile', devtools: false, inspector }
+    );
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should filter by action name text or RegExp', () => {
+    const useStore = createProfile();
+    const api = useStore as any;
+
+    useStore.getState().rename('grace');
+    useStore.getState().toggleTheme();
+    useStore.getState().setEmail('grace@example.com');
+
+    expect(api.inspector.query({ actionName: 'THEME' }).map((e: any) => e.actionName)).toEqual([
+      'profile/toggleTheme',
+    ]);
+    expect(api.inspector.query({ actionName: /\/(rename|setEmail)$/ }).map((e: any) => e.args[0])).toEqual([
+      'grace',
+      'grace@example.com',
+    ]);
+  });
+
+  it('should filter by patch path prefix', () => {
+    const useStore = createProfile();
+    const api = useStore as any;
+
+    useStore.getState().rename('grace');
+    useStore.getState().toggleTheme();
+    useStore.getState().setEmail('grace@example.com');
+
+    expect(api.inspector.query({ pathPrefix: 'user' }).length).toBe(2);
+    expect(api.inspector.query({ pathPrefix: '/user/email' }).map((e: any) => e.actionName)).toEqual([
+      'profile/setEmail',
+    ]);
+    expect(api.inspector.query({ pathPrefix: 'user', actionName: 'rename' }).length).toBe(1);
+  });
+
+  it('should filter by time range', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    const useStore = createProfile();
+    const api = useStore as any;
+
+    useStore.getState().rename('a');
+    vi.setSystemTime(2000);
+    useStore.getState().rename('b');
+    vi.setSystemTime(3000);
+    useStore.getState().rename('c');
+
+    const args = (filter: object) => api.inspector.query(filter).map((e: any) => e.args[0]);
+    expect(args({ since: 2000 })).toEqual(['b', 'c']);
+    expect(args({ until: 2000 })).toEqual(['a', 'b']);
+    expect(args({ since: 1500, until: 2500, pathPrefix: 'user.name' })).toEqual(['b']);
+  });
+
+  it('should return nothing when the store is not in storeIds', () => {
+    const useStore = createProfile();
+    const api = useStore as any;
+
+    useStore.getState().rename('grace');
+
+    expect(api.inspector.query({ storeIds: ['other'] })).toEqual([]);
+    expect(api.inspector.query({ storeIds: [api.__id] }).length).toBe(1);
+  });
+
+  it('should keep the index in step with dropped entries', () => {
+    const useStore = createProfile({ maxEntries: 1000 });
+    const api = useStore as any;
+
+    for (let i = 0; i < 3000; i++) {
+      if (i % 3 === 0) useStore.getState().toggleTheme();
+      else useStore.getState().rename(`user-${i}`);
+    }
+
+    const themed = api.inspector.query({ pathPrefix: 'theme' });
+    expect(themed.length).toBe(333);
+    expect(themed.every((e: any) => e.actionName === 'profile/toggleTheme')).toBe(true);
+    expect(api.inspector.query({ actionName: 'rename' }).length).toBe(667);
+  });
+});
+
+describe('inspector profiling', () => {
+  function createCounter() {
+    return create<any>(
+      (set) => ({
+        count: 0,
+        items: [] as number[],
+        increment: () => set((draft: any) => { draft.count += 1; }),
+        addItems: (n: number) => set((draft: any) => {
+          for (let i = 0; i < n; i++) draft.items.push(i);
+        }),
+      }),
+      { name: 'counter', devtools: false }
+    );
+  }
+
+  it('should record duration, notified subscribers and patch size of each set()', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+    const unsubscribe = useStore.subscribe(() => {});
+    useStore.subscribe(() => {});
+    unsubscribe();
+
+    useStore.getState().increment();
+
+    const [entry] = api.inspector.getActionLog();
+    expect(entry.duration).toBeGreaterThanOrEqual(0);
+    expect(entry.subscribers).toBe(1);
+    expect(entry.patchBytes).toBeGreaterThan(0);
+  });
+
+  it('should not count listeners registered by other middleware', () => {
+    const useStore = create<{ count: number; increment: () => void }>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'saved', devtools: false, persist: { storage: createMemoryStorage() } }
+    );
+    const api = useStore as any;
+    useStore.subscribe(() => {});
+
+    useStore.getState().increment();
+
+    expect(api.inspector.getActionLog().at(-1).subscribers).toBe(1);
+    expect(api.inspector.stats().notifications).toBe(1);
+  });
+
+  it('should aggregate the profile by action name', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+
+    useStore.getState().increment();
+    useStore.getState().increment();
+    useStore.getState().addItems(100);
+
+    const stats = api.inspector.stats();
+    expect(stats.count).toBe(3);
+    const increment = stats.actions.find((a: any) => a.actionName === 'counter/increment');
+    expect(increment.count).toBe(2);
+    expect(increment.avgDuration).toBeCloseTo(increment.totalDuration / 2);
+    const addItems = stats.actions.find((a: any) => a.actionName === 'counter/addItems');
+    expect(addItems.patchCount).toBe(1);
+    expect(addItems.patchBytes).toBeGreaterThan(increment.patchBytes);
+    expect(stats.totalDuration).toBeCloseTo(
+      stats.actions.reduce((sum: number, a: any) => sum + a.totalDuration, 0)
+    );
+  });
+
+  it('should aggregate only the entries matching a filter', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+
+    useStore.getState().increment();
+    useStore.getState().addItems(2);
+
+    const stats = api.inspector.stats({ pathPrefix: 'items' });
+    expect(stats.actions.map((a: any) => a.actionName)).toEqual(['counter/addItems']);
+  });
+});
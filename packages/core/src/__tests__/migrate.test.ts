@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { snapshot } from '../snapshot';
+import { mock } from '../middleware/mock';
+import { getStoreVersions, migrateState } from '../migrate';
+
+beforeEach(() => {
+  registry.clear();
+});
+
+/** v1 stored `name`; v2 splits it into first/last; v3 adds `tags` */
+function createProfile(version = 3) {
+  return create<any>(
+    () => ({ first: '', last: '', tags: [] as string[] }),
+    {
+      name: 'profile',
+      devtools: false,
+      version,
+      migrate: (old, fromVersion) => {
+        let state = old;
+        if (fromVersion < 2) {
+          const [first = '', last = ''] = String(state.name ?? '').split(' ');
+          state = { first, last };
+        }
+        if (fromVersion < 3) {
+          state = { ...state, tags: [] };
+        }
+        return state;
+      },
+    }
+  );
+}
+
+describe('migrations', () => {
+  it('should record store versions in exported snapshots', () => {
+    createProfile();
+    create<any>(() => ({ count: 0 }), { name: 'counter', devtools: false });
+
+    expect(getStoreVersions()).toEqual({ profile: 3, counter: 1 });
+    expect(snapshot.exportAll().storeVersions).toEqual({ profile: 3, counter: 1 });
+  });
+
+  it('should migrate old snapshot data on importAll', () => {
+    const useStore = createProfile();
+
+    snapshot.importAll({
+      version: 1,
+      timestamp: Date.now(),
+      stores: { profile: { name: 'Ada Lovelace' } },
+      storeVersions: { profile: 1 },
+    });
+
+    expect(useStore.getState()).toEqual({ first: 'Ada', last: 'Lovelace', tags: [] });
+  });
+
+  it('should treat snapshots without storeVersions as version 1', () => {
+    const useStore = createProfile();
+
+    snapshot.importAll({
+      version: 1,
+      timestamp: Date.now(),
+      stores: { profile: { name: 'Grace Hopper' } },
+    });
+
+    expect(useStore.getState().last).toBe('Hopper');
+  });
+
+  it('should round-trip current snapshots without migrating', () => {
+    const useStore = createProfile();
+    mock.inject(useStore as any, { first: 'Alan', tags: ['x'] });
+
+    const data = snapshot.exportAll();
+    registry.clear();
+    const restored = createProfile();
+    snapshot.importAll(data);
+
+    expect(restored.getState()).toEqual(useStore.getState());
+  });
+
+  it('should migrate injectAll data by version', () => {
+    const useStore = createProfile();
+
+    mock.injectAll({ profile: { first: 'Linus', last: 'T' } }, { profile: 2 });
+    expect(useStore.getState()).toEqual({ first: 'Linus', last: 'T', tags: [] });
+  });
+
+  it('should reject data newer than the store or without a migrate()', () => {
+    const profile = createProfile(2);
+    const counter = create<any>(() => ({ count: 0 }), { name: 'counter', devtools: false, version: 2 });
+
+    expect(() => migrateState(profile as any, {}, 3)).toThrow(/newer than the store/);
+    expect(() => migrateState(counter as any, { count: 1 }, 1)).toThrow(/has no migrate\(\)/);
+  });
+
+  it('should not mutate the input data', () => {
+    const useStore = createProfile();
+    const old = { name: 'Ada Lovelace' };
+    migrateState(useStore as any, old, 1);
+    expect(old).toEqual({ name: 'Ada Lovelace' });
+  });
+});
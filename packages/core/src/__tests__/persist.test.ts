@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { createMemoryStorage } from '../storage';
+
+beforeEach(() => {
+  registry.clear();
+});
+
+describe('persist middleware', () => {
+  function createCounter(storage: ReturnType<typeof createMemoryStorage>, options: object = {}) {
+    return create<{ count: number; increment: () => void }>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'counter', devtools: false, persist: { storage, ...options } }
+    );
+  }
+
+  it('should save and restore timeline history', async () => {
+    const storage = createMemoryStorage();
+
+    const first = createCounter(storage) as any;
+    await first.persist.whenHydrated();
+    first.getState().increment();
+    first.getState().increment();
+    await first.persist.flush();
+
+    const second = createCounter(storage) as any;
+    await second.persist.whenHydrated();
+    expect(second.getState().count).toBe(2);
+    expect(second.temporal.position).toBe(2);
+
+    second.temporal.back();
+    expect(second.getState().count).toBe(1);
+    expect(typeof second.getState().increment).toBe('function');
+  });
+
+  it('should save and restore branches and the active branch', async () => {
+    const storage = createMemoryStorage();
+
+    const first = createCounter(storage) as any;
+    await first.persist.whenHydrated();
+    first.getState().increment();
+    const branch = first.branch.fork('experiment');
+    first.branch.switch(branch.id);
+    first.getState().increment();
+    first.getState().increment();
+    await first.persist.flush();
+
+    const second = createCounter(storage) as any;
+    await second.persist.whenHydrated();
+    expect(second.branch.list().map((b: any) => b.name)).toEqual(['main', 'experiment']);
+    expect(second.branch.active().id).toBe(branch.id);
+    expect(second.getState().count).toBe(3);
+
+    second.branch.switch('main');
+    expect(second.getState().count).toBe(1);
+  });
+
+  it('should save automatically after changes', async () => {
+    const storage = createMemoryStorage();
+
+    const store = createCounter(storage) as any;
+    await store.persist.whenHydrated();
+    store.getState().increment();
+    await new Promise((r) => setTimeout(r, 0));
+
+    const saved = storage.getItem('counter') as any;
+    expect(saved.version).toBe(1);
+    expect(saved.state).toEqual({ count: 1 });
+    expect(saved.timeline.position).toBe(1);
+  });
+
+  it('should migrate data saved with an older version', async () => {
+    const storage = createMemoryStorage();
+
+    const first = createCounter(storage) as any;
+    await first.persist.whenHydrated();
+    first.getState().increment();
+    await first.persist.flush();
+
+    const second = createCounter(storage, {
+      version: 2,
+      migrate: (persisted: any, fromVersion: number) => {
+        expect(fromVersion).toBe(1);
+        return { ...persisted, version: 2, branching: null,
+          state: { count: persisted.state.count * 10 },
+          timeline: { patches: { patches: [], inversePatches: [] }, position: 0 },
+        };
+      },
+    }) as any;
+    await second.persist.whenHydrated();
+    expect(second.getState().count).toBe(10);
+  });
+
+  it('should ignore data from another version without a migration', async () => {
+    const storage = createMemoryStorage();
+
+    const first = createCounter(storage) as any;
+    await first.persist.whenHydrated();
+    first.getState().increment();
+    await first.persist.flush();
+
+    const second = createCounter(storage, { version: 2 }) as any;
+    await second.persist.whenHydrated();
+    expect(second.getState().count).toBe(0);
+  });
+
+  it('should restore paths the timeline ignores', async () => {
+    const storage = createMemoryStorage();
+    const createForm = () =>
+      create<any>(
+        (set) => ({
+          title: 'draft',
+          loading: false,
+          setTitle: (title: string) => set({ title }),
+          setLoading: (loading: boolean) => set({ loading }),
+        }),
+        {
+          name: 'form',
+          devtools: false,
+          branching: false,
+          timeline: { ignore: ['loading'] },
+          persist: { storage },
+        }
+      );
+
+    const first = createForm() as any;
+    await first.persist.whenHydrated();
+    first.getState().setTitle('final');
+    first.getState().setLoading(true);
+    await first.persist.flush();
+
+    const second = createForm() as any;
+    await second.persist.whenHydrated();
+    expect(second.getState()).toMatchObject({ title: 'final', loading: true });
+    expect(second.temporal.position).toBe(1);
+
+    second.temporal.back();
+    expect(second.getState()).toMatchObject({ title: 'draft', loading: true });
+    expect(typeof second.getState().setTitle).toBe('function');
+  });
+
+  it('should report storage failures instead of leaving them unhandled', async () => {
+    const errors: Array<[string, string]> = [];
+    const storage = {
+      getItem: () => {
+        throw new Error('read failed');
+      },
+      setItem: () => {
+        throw new Error('quota exceeded');
+      },
+      removeItem: () => {},
+    };
+    const onError = (error: unknown, operation: string) =>
+      errors.push([operation, (error as Error).message]);
+
+    const store = createCounter(storage as any, { onError }) as any;
+    await expect(store.persist.whenHydrated()).rejects.toThrow('read failed');
+
+    store.getState().increment();
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(errors).toEqual([
+      ['load', 'read failed'],
+      ['save', 'quota exceeded'],
+    ]);
+    await expect(store.persist.flush()).rejects.toThrow('quota exceeded');
+  });
+
+  it('should clear persisted data', async () => {
+    const storage = createMemoryStorage();
+
+    const store = createCounter(storage) as any;
+    await store.persist.whenHydrated();
+    store.getState().increment();
+    await store.persist.flush();
+    await store.persist.clear();
+
+    expect(storage.getItem('counter')).toBeNull();
+  });
+});
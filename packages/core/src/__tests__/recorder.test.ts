@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+
+beforeEach(() => {
+  registry.clear();
+});
+
+type TodoState = {
+  todos: string[];
+  filter: string;
+  add: (text: string) => void;
+  addMany: (texts: string[]) => void;
+  setFilter: (filter: string) => void;
+};
+
+function createTodos(add?: (draft: any, text: string) => void) {
+  return create<TodoState>(
+    (set, get) => ({
+      todos: [],
+      filter: 'all',
+      add: (text) =>
+        set((draft: any) => {
+          if (add) add(draft, text);
+          else draft.todos.push(text);
+        }),
+      addMany: (texts) => texts.forEach((t) => get().add(t)),
+      setFilter: (filter) => set({ filter }),
+    }),
+    { name: 'todos', devtools: false, recorder: true }
+  );
+}
+
+describe('recorder', () => {
+  it('should record action names, arguments and patches', () => {
+    const useStore = createTodos();
+    const api = useStore as any;
+
+    api.recorder.start();
+    useStore.getState().add('milk');
+    useStore.getState().setFilter('done');
+    const recording = api.recorder.stop();
+
+    expect(api.recorder.isRecording).toBe(false);
+    expect(recording.initialState).toEqual({ todos: [], filter: 'all' });
+    expect(recording.calls.map((c: any) => [c.actionName, c.args])).toEqual([
+      ['add', ['milk']],
+      ['setFilter', ['done']],
+    ]);
+    expect(recording.calls[0].patches.length).toBeGreaterThan(0);
+  });
+
+  it('should only record the outermost call of nested actions', () => {
+    const useStore = createTodos();
+    const api = useStore as any;
+
+    api.recorder.start();
+    useStore.getState().addMany(['a', 'b']);
+    const recording = api.recorder.stop();
+
+    expect(recording.calls).toHaveLength(1);
+    expect(recording.calls[0].actionName).toBe('addMany');
+  });
+
+  it('should record calls made while an async action is pending', async () => {
+    let resolve!: () => void;
+    const ready = new Promise<void>((r) => { resolve = r; });
+    const useStore = create<any>(
+      (set) => ({
+        count: 0,
+        loading: false,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+        load: async () => {
+          set({ loading: true });
+          await ready;
+          set({ loading: false });
+        },
+      }),
+      { name: 'loader', devtools: false, recorder: true }
+    );
+    const api = useStore as any;
+
+    api.recorder.start();
+    const done = useStore.getState().load();
+    useStore.getState().increment();
+    resolve();
+    await done;
+    const recording = api.recorder.stop();
+
+    expect(recording.calls.map((c: any) => c.actionName)).toEqual(['load', 'increment']);
+    const verified = await api.recorder.verify(recording);
+    expect(verified.ok).toBe(true);
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  it('should record calls of another store made from an action', () => {
+    const todos = createTodos();
+    const other = create<any>(
+      () => ({ addTodo: (text: string) => todos.getState().add(text) }),
+      { name: 'other', devtools: false }
+    );
+
+    (todos as any).recorder.start();
+    other.getState().addTodo('milk');
+    const recording = (todos as any).recorder.stop();
+
+    expect(recording.calls.map((c: any) => [c.actionName, c.args])).toEqual([['add', ['milk']]]);
+  });
+
+  it('should not record calls when not started', () => {
+    const useStore = createTodos();
+    const api = useStore as any;
+
+    useStore.getState().add('milk');
+    expect(api.recorder.stop().calls).toHaveLength(0);
+  });
+
+  it('should replay a recording against a fresh store', async () => {
+    const source = createTodos();
+    (source as any).recorder.start();
+    source.getState().add('milk');
+    source.getState().add('eggs');
+    source.getState().setFilter('done');
+    const recording = (source as any).recorder.stop();
+
+    const target = createTodos();
+    target.getState().add('stale');
+    const result = await (target as any).recorder.replay(recording);
+
+    expect(result.replayed).toBe(3);
+    expect(target.getState().todos).toEqual(['milk', 'eggs']);
+    expect(target.getState().filter).toBe('done');
+    expect((target as any).temporal.position).toBe(3);
+  });
+
+  it('should replay arguments that JSON cannot represent from a saved recording', async () => {
+    const source = createTodos();
+    const due = new Date('2024-01-02T00:00:00.000Z');
+    (source as any).recorder.start();
+    source.getState().setFilter(due as any);
+    const recording = JSON.parse(JSON.stringify((source as any).recorder.stop()));
+
+    expect(recording.calls[0].serializable).toBe(true);
+    const target = createTodos();
+    await (target as any).recorder.replay(recording);
+    expect(target.getState().filter).toEqual(due);
+  });
+
+  it('should mark class instances without a codec as unserializable', () => {
+    class Query {
+      constructor(public text: string) {}
+    }
+    const useStore = createTodos();
+    const api = useStore as any;
+
+    api.recorder.start();
+    useStore.getState().setFilter(new Query('done') as any);
+    useStore.getState().setFilter({ nested: [new Date(0)] } as any);
+    const recording = api.recorder.stop();
+
+    expect(recording.calls.map((c: any) => c.serializable)).toEqual([false, true]);
+  });
+
+  it('should stop replaying at stopAt', async () => {
+    const source = createTodos();
+    (source as any).recorder.start();
+    source.getState().add('milk');
+    source.getState().add('eggs');
+    const recording = (source as any).recorder.stop();
+
+    const target = createTodos();
+    const result = await (target as any).recorder.replay(recording, { stopAt: 1 });
+
+    expect(result.replayed).toBe(1);
+    expect(target.getState().todos).toEqual(['milk']);
+  });
+
+  it('should verify a replay that matches the recording', async () => {
+    const source = createTodos();
+    (source as any).recorder.start();
+    source.getState().add('milk');
+    source.getState().setFilter('done');
+    const recording = (source as any).recorder.stop();
+
+    const verified = await (createTodos() as any).recorder.verify(recording);
+    expect(verified).toMatchObject({ ok: true, replayed: 2, mismatches: [] });
+  });
+
+  it('should report calls that behave differently after a change', async () => {
+    const source = createTodos();
+    (source as any).recorder.start();
+    source.getState().add('milk');
+    source.getState().setFilter('done');
+    const recording = (source as any).recorder.stop();
+
+    // "Refactored" add() that upper-cases its input
+    const changed = createTodos((draft, text) => draft.todos.push(text.toUpperCase()));
+    const verified = await (changed as any).recorder.verify(recording);
+
+    expect(verified.ok).toBe(false);
+    expect(verified.mismatches).toHaveLength(1);
+    expect(verified.mismatches[0]).toMatchObject({ index: 0, actionName: 'add' });
+  });
+
+  it('should refuse to replay calls with unserializable arguments', async () => {
+    const useStore = createTodos();
+    const api = useStore as any;
+    const circular: any = {};
+    circular.self = circular;
+
+    api.recorder.start();
+    useStore.getState().setFilter(circular);
+    const recording = api.recorder.stop();
+
+    expect(recording.calls[0].serializable).toBe(false);
+    await expect(api.recorder.replay(recording)).rejects.toThrow('could not be serialized');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { snapshot } from '../snapshot';
+import { mock } from '../middleware/mock';
+import { StateValidationError } from '../schema';
+import type { StateSchema } from '../types';
+
+beforeEach(() => {
+  registry.clear();
+});
+
+/** Minimal zod-like validator: `count` must be a number, `label` a string */
+const counterSchema: StateSchema = {
+  safeParse(data: any) {
+    const issues = [];
+    if (typeof data?.count !== 'number') issues.push({ path: ['count'], message: 'Expected number' });
+    if (typeof data?.label !== 'string') issues.push({ path: ['label'], message: 'Expected string' });
+    return issues.length === 0 ? { success: true, data } : { success: false, error: { issues } };
+  },
+};
+
+function createCounter(name: string, options: { validateOnSet?: boolean; schema?: StateSchema } = {}) {
+  return create<any>(
+    (set) => ({
+      count: 0,
+      label: 'counter',
+      inc: () => set((draft: any) => { draft.count += 1; }),
+      setCount: (count: unknown) => set({ count }),
+      corrupt: () => set((draft: any) => { draft.count = 'oops'; }),
+    }),
+    { name, devtools: false, schema: options.schema ?? counterSchema, validateOnSet: options.validateOnSet }
+  );
+}
+
+describe('schema validation', () => {
+  it('should reject mock.inject with the offending store path', () => {
+    const useStore = createCounter('counter');
+    const api = useStore as any;
+
+    let error: unknown;
+    try {
+      mock.inject(api, { count: 'nope' });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(StateValidationError);
+    expect((error as StateValidationError).issues).toEqual([
+      { storeName: 'counter', path: ['count'], message: 'Expected number' },
+    ]);
+    expect((error as Error).message).toContain('counter" at count');
+    expect(useStore.getState().count).toBe(0);
+  });
+
+  it('should accept valid injections', () => {
+    const useStore = createCounter('counter');
+    mock.inject(useStore as any, { count: 5 });
+    expect(useStore.getState().count).toBe(5);
+  });
+
+  it('should leave every store untouched when importAll fails', () => {
+    const a = createCounter('a');
+    const b = createCounter('b');
+
+    expect(() =>
+      snapshot.importAll({
+        version: 1,
+        timestamp: Date.now(),
+        stores: {
+          a: { count: 7, label: 'a' },
+          b: { count: 1 },
+        },
+      })
+    ).toThrow(StateValidationError);
+
+    expect(a.getState().count).toBe(0);
+    expect(b.getState().count).toBe(0);
+  });
+
+  it('should reject a failing injectAll atomically', () => {
+    const a = createCounter('a');
+    createCounter('b');
+
+    expect(() => mock.injectAll({ a: { count: 3 }, b: { label: 42 } })).toThrow(/store "b" at label/);
+    expect(a.getState().count).toBe(0);
+  });
+
+  it('should not validate set unless validateOnSet is enabled', () => {
+    const useStore = createCounter('counter');
+    useStore.getState().corrupt();
+    expect(useStore.getState().count).toBe('oops');
+  });
+
+  it('should throw on invalid set and keep history unchanged', () => {
+    const useStore = createCounter('counter', { validateOnSet: true });
+    const api = useStore as any;
+
+    useStore.getState().inc();
+    const position = api.temporal.position;
+
+    expect(() => useStore.getState().corrupt()).toThrow(StateValidationError);
+    expect(() => useStore.getState().setCount('x')).toThrow(StateValidationError);
+
+    expect(useStore.getState().count).toBe(1);
+    expect(api.temporal.position).toBe(position);
+  });
+
+  it('should not validate computed values as data', () => {
+    // Strict schema: only the data keys are allowed
+    const strict: StateSchema = {
+      safeParse(data: any) {
+        const issues = Object.keys(data)
+          .filter((key) => key !== 'count' && key !== 'label')
+          .map((key) => ({ path: [key], message: 'unknown key' }));
+        return issues.length === 0 ? { success: true, data } : { success: false, error: { issues } };
+      },
+    };
+    const useStore = create<any>(
+      (set) => ({
+        count: 0,
+        label: 'counter',
+        setCount: (count: number) => set({ count }),
+      }),
+      {
+        name: 'cs',
+        devtools: false,
+        schema: strict,
+        validateOnSet: true,
+        computed: { double: (state) => state.count * 2 },
+      }
+    );
+
+    useStore.getState().setCount(2);
+    mock.inject(useStore as any, { count: 5 });
+    mock.injectAll({ cs: { count: 6 } });
+    expect(useStore.getState().count).toBe(6);
+    expect(useStore.getState().double).toBe(12);
+  });
+
+  it('should keep the updater name for coalescing', () => {
+    let rawSet: any;
+    const useStore = create<any>(
+      (set) => {
+        rawSet = set;
+        return { count: 0, label: 'counter' };
+      },
+      {
+        name: 'counter',
+        devtools: false,
+        schema: counterSchema,
+        validateOnSet: true,
+        timeline: { coalesce: { windowMs: 60000, actions: ['increment'] } },
+      }
+    );
+
+    for (let i = 0; i < 3; i++) rawSet(function increment(draft: any) { draft.count += 1; });
+    expect(useStore.getState().count).toBe(3);
+    expect((useStore as any).temporal.position).toBe(1);
+  });
+
+  it('should support parse-only validators', () => {
+    const schema: StateSchema = {
+      parse(data: any) {
+        if (data.count < 0) {
+          throw Object.assign(new Error('bad'), {
+            issues: [{ path: ['count'], message: 'Must be positive' }],
+          });
+        }
+        return data;
+      },
+    };
+    const useStore = createCounter('counter', { schema, validateOnSet: true });
+
+    expect(() => useStore.getState().setCount(-1)).toThrow(/count: Must be positive/);
+    useStore.getState().setCount(2);
+    expect(useStore.getState().count).toBe(2);
+  });
+});
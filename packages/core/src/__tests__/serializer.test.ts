@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { snapshot } from '../snapshot';
+import { serializer } from '../serializer';
+
+class Money {
+  constructor(public amount: number, public currency: string) {}
+}
+
+beforeEach(() => {
+  registry.clear();
+});
+
+afterEach(() => {
+  serializer.unregister('Money');
+});
+
+describe('serializer', () => {
+  it('should round-trip built-in non-JSON values', () => {
+    const value = {
+      when: new Date('2024-05-01T12:00:00.000Z'),
+      lookup: new Map<string, unknown>([['a', 1], ['b', new Set([1, 2])]]),
+      tags: new Set(['x', 'y']),
+      big: 12345678901234567890n,
+      missing: undefined,
+      list: [undefined, 1],
+    };
+
+    const restored = serializer.parse<typeof value>(serializer.stringify(value));
+
+    expect(restored.when).toBeInstanceOf(Date);
+    expect(restored.when.toISOString()).toBe('2024-05-01T12:00:00.000Z');
+    expect(restored.lookup.get('b')).toEqual(new Set([1, 2]));
+    expect(restored.tags).toEqual(new Set(['x', 'y']));
+    expect(restored.big).toBe(12345678901234567890n);
+    expect('missing' in restored).toBe(true);
+    expect(restored.list).toEqual([undefined, 1]);
+  });
+
+  it('should write tagged values as plain JSON', () => {
+    expect(serializer.encode({ at: new Date(0) })).toEqual({
+      at: { $type: 'Date', value: '1970-01-01T00:00:00.000Z' },
+    });
+  });
+
+  it('should escape plain objects that use the tag key', () => {
+    const value = { $type: 'Date', value: 'not a date' };
+    expect(serializer.parse(serializer.stringify(value))).toEqual(value);
+  });
+
+  it('should support registered codecs for class instances', () => {
+    serializer.register<Money>({
+      name: 'Money',
+      test: (v) => v instanceof Money,
+      encode: (m) => [m.amount, m.currency],
+      decode: ([amount, currency]) => new Money(amount, currency),
+    });
+
+    const restored = serializer.parse<{ price: Money }>(
+      serializer.stringify({ price: new Money(5, 'EUR') })
+    );
+    expect(restored.price).toBeInstanceOf(Money);
+    expect(restored.price.currency).toBe('EUR');
+  });
+
+  it('should keep unknown tags as they are', () => {
+    const encoded = { price: { $type: 'Money', value: [5, 'EUR'] } };
+    expect(serializer.decode(encoded)).toEqual(encoded);
+  });
+
+  it('should carry Dates and Maps through snapshot stringify and import', () => {
+    const useStore = create<any>(
+      () => ({ due: new Date('2024-01-01T00:00:00.000Z'), seen: new Map([['a', true]]) }),
+      { name: 'todo', devtools: false }
+    );
+
+    const json = snapshot.stringify();
+    useStore.setState({ due: new Date(0), seen: new Map() });
+    snapshot.importAll(snapshot.parse(json));
+
+    expect(useStore.getState().due).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(useStore.getState().seen.get('a')).toBe(true);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { registry } from '../registry';
 import { snapshot } from '../snapshot';
+import { create } from '../createStore';
 import type { EnhancedStoreApi } from '../types';
 
 function makeFakeStore(id: string, name: string, initialState: Record<string, unknown>): EnhancedStoreApi<any> {
@@ -80,4 +81,28 @@ describe('snapshot', () => {
     const parsed = snapshot.parse(json);
     expect(parsed.stores.counter).toEqual({ count: 5 });
   });
+
+  it('should keep actions working after an export/import round trip', () => {
+    const useStore = create<{ count: number; increment: () => void }>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'counter', devtools: false }
+    );
+    const api = useStore as any;
+
+    api.getState().increment();
+    const data = snapshot.parse(snapshot.stringify());
+    api.getState().increment();
+
+    snapshot.importAll(data);
+    expect(api.getState().count).toBe(1);
+    api.getState().increment();
+    expect(api.getState().count).toBe(2);
+
+    snapshot.import(api, snapshot.export(api));
+    api.getState().increment();
+    expect(api.getState().count).toBe(3);
+  });
 });
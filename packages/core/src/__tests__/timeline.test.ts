@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { create } from '../createStore';
 import { registry } from '../registry';
+import { bridge } from '../bridge';
+import type { TimelineConfig } from '../types';
 
 beforeEach(() => {
   registry.clear();
@@ -144,3 +146,371 @@ describe('timeline middleware', () => {
     unsub();
   });
 });
+
+describe('selective history tracking', () => {
+  type FormState = {
+    title: string;
+    ui: { loading: boolean; selected: string | null };
+    setTitle: (title: string) => void;
+    setLoading: (loading: boolean) => void;
+    select: (title: string, selected: string) => void;
+  };
+
+  function createForm(timeline: { track?: string[]; ignore?: string[] }) {
+    return create<FormState>(
+      (set) => ({
+        title: 'draft',
+        ui: { loading: false, selected: null },
+        setTitle: (title) => set({ title }),
+        setLoading: (loading) => set((draft: any) => { draft.ui.loading = loading; }),
+        select: (title, selected) =>
+          set((draft: any) => {
+            draft.title = title;
+            draft.ui.selected = selected;
+          }),
+      }),
+      { name: 'form', devtools: false, timeline }
+    );
+  }
+
+  it('should not create history entries for ignored paths', () => {
+    const useStore = createForm({ ignore: ['ui.loading'] });
+    const api = useStore as any;
+
+    useStore.getState().setLoading(true);
+    expect(useStore.getState().ui.loading).toBe(true);
+    expect(api.temporal.position).toBe(0);
+    expect(api.temporal.canBack()).toBe(false);
+
+    useStore.getState().setTitle('final');
+    expect(api.temporal.position).toBe(1);
+  });
+
+  it('should leave ignored fields alone on undo/redo', () => {
+    const useStore = createForm({ ignore: ['/ui/loading'] });
+    const api = useStore as any;
+
+    useStore.getState().setTitle('final');
+    useStore.getState().setLoading(true);
+
+    api.temporal.back();
+    expect(useStore.getState().title).toBe('draft');
+    expect(useStore.getState().ui.loading).toBe(true);
+    expect(useStore.getState().ui.selected).toBeNull();
+
+    api.temporal.forward();
+    expect(useStore.getState().title).toBe('final');
+    expect(useStore.getState().ui.loading).toBe(true);
+    expect(typeof useStore.getState().setTitle).toBe('function');
+  });
+
+  it('should record only the tracked part of a mixed change', () => {
+    const useStore = createForm({ ignore: ['ui'] });
+    const api = useStore as any;
+
+    useStore.getState().select('final', 'a');
+    expect(api.temporal.position).toBe(1);
+
+    api.temporal.back();
+    expect(useStore.getState().title).toBe('draft');
+    expect(useStore.getState().ui.selected).toBe('a');
+  });
+
+  it('should only record tracked paths', () => {
+    const useStore = createForm({ track: ['title'] });
+    const api = useStore as any;
+
+    useStore.getState().setLoading(true);
+    expect(api.temporal.position).toBe(0);
+
+    useStore.getState().setTitle('final');
+    api.temporal.back();
+    expect(useStore.getState().title).toBe('draft');
+    expect(useStore.getState().ui.loading).toBe(true);
+  });
+});
+
+describe('history coalescing', () => {
+  type EditorState = {
+    text: string;
+    bold: boolean;
+    type: (text: string) => void;
+    toggleBold: () => void;
+  };
+
+  function createEditor(coalesce?: TimelineConfig['coalesce']) {
+    return create<EditorState>(
+      (set) => ({
+        text: '',
+        bold: false,
+        type: (text) => set(function type(draft: any) { draft.text += text; }),
+        toggleBold: () => set(function toggleBold(draft: any) { draft.bold = !draft.bold; }),
+      }),
+      { name: 'editor', devtools: false, timeline: { coalesce } }
+    );
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should merge same-action sets within the window', () => {
+    const useStore = createEditor({ windowMs: 500 });
+    const api = useStore as any;
+
+    useStore.getState().type('h');
+    vi.advanceTimersByTime(100);
+    useStore.getState().type('i');
+    expect(api.temporal.position).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    useStore.getState().type('!');
+    expect(api.temporal.position).toBe(2);
+
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('hi');
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('');
+  });
+
+  it('should start a new entry when the action changes', () => {
+    const useStore = createEditor({ windowMs: 500 });
+    const api = useStore as any;
+
+    useStore.getState().type('a');
+    useStore.getState().toggleBold();
+    useStore.getState().type('b');
+    expect(api.temporal.position).toBe(3);
+  });
+
+  it('should only coalesce the listed actions', () => {
+    const useStore = createEditor({ windowMs: 500, actions: ['type'] });
+    const api = useStore as any;
+
+    useStore.getState().toggleBold();
+    useStore.getState().toggleBold();
+    expect(api.temporal.position).toBe(2);
+  });
+
+  it('should coalesce actions by name whatever updater they pass to set()', () => {
+    for (const name of ['increment', 'counter/increment']) {
+      const useStore = create<{ count: number; increment: () => void }>(
+        (set) => ({
+          count: 0,
+          increment: () => set((draft: any) => { draft.count += 1; }),
+        }),
+        { name: 'counter', devtools: false, timeline: { coalesce: { windowMs: 60000, actions: [name] } } }
+      );
+      const api = useStore as any;
+
+      useStore.getState().increment();
+      useStore.getState().increment();
+      useStore.getState().increment();
+      expect(api.temporal.position).toBe(1);
+      expect(useStore.getState().count).toBe(3);
+      registry.clear();
+    }
+  });
+
+  it('should coalesce with a custom predicate', () => {
+    const useStore = createEditor({
+      shouldMerge: (prev, next) =>
+        prev.actionName === 'editor/type' && next.actionName === 'editor/toggleBold',
+    });
+    const api = useStore as any;
+
+    useStore.getState().type('a');
+    useStore.getState().toggleBold();
+    expect(api.temporal.position).toBe(1);
+
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('');
+    expect(useStore.getState().bold).toBe(false);
+  });
+
+  it('should record every set() inside batch() as one entry', () => {
+    const useStore = createEditor();
+    const api = useStore as any;
+
+    useStore.getState().type('a');
+    api.temporal.batch(() => {
+      useStore.getState().type('b');
+      useStore.getState().toggleBold();
+      useStore.getState().type('c');
+    });
+    useStore.getState().type('d');
+    expect(api.temporal.position).toBe(3);
+
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('abc');
+    api.temporal.back();
+    expect(useStore.getState()).toMatchObject({ text: 'a', bold: false });
+  });
+
+  it('should close the pending entry on undo', () => {
+    const useStore = createEditor({ windowMs: 500 });
+    const api = useStore as any;
+
+    useStore.getState().type('a');
+    useStore.getState().type('b');
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('');
+
+    api.temporal.forward();
+    expect(useStore.getState().text).toBe('ab');
+  });
+});
+
+describe('manual archiving', () => {
+  function createManualEditor() {
+    return create<{ text: string; type: (text: string) => void }>(
+      (set) => ({
+        text: '',
+        type: (text) => set((draft: any) => { draft.text += text; }),
+      }),
+      { name: 'editor', devtools: false, timeline: { autoArchive: false } }
+    );
+  }
+
+  it('should record the changes made since the last archive() as one step', () => {
+    const useStore = createManualEditor();
+    const api = useStore as any;
+
+    useStore.getState().type('a');
+    useStore.getState().type('b');
+    api.temporal.archive();
+    useStore.getState().type('c');
+    api.temporal.archive();
+    expect(api.temporal.position).toBe(2);
+
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('ab');
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('');
+  });
+
+  it('should close an entry around batch()', () => {
+    const useStore = createManualEditor();
+    const api = useStore as any;
+
+    useStore.getState().type('a');
+    api.temporal.batch(() => {
+      useStore.getState().type('b');
+      useStore.getState().type('c');
+    });
+    expect(api.temporal.position).toBe(2);
+
+    api.temporal.back();
+    expect(useStore.getState().text).toBe('a');
+  });
+
+  it('should keep the next set() out of a coalesced entry after archive()', () => {
+    const useStore = create<{ text: string; type: (text: string) => void }>(
+      (set) => ({
+        text: '',
+        type: (text) => set((draft: any) => { draft.text += text; }),
+      }),
+      { name: 'editor', devtools: false, timeline: { coalesce: { windowMs: 60000 } } }
+    );
+    const api = useStore as any;
+
+    useStore.getState().type('a');
+    useStore.getState().type('b');
+    api.temporal.archive();
+    useStore.getState().type('c');
+    expect(api.temporal.position).toBe(2);
+  });
+});
+
+describe('timeline marks', () => {
+  function createCounter() {
+    return create<{ count: number; increment: () => void }>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'counter', devtools: false }
+    );
+  }
+
+  it('should jump back to a marked position', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+
+    useStore.getState().increment();
+    const mark = api.temporal.mark('one');
+    expect(mark).toMatchObject({ label: 'one', position: 1 });
+
+    useStore.getState().increment();
+    useStore.getState().increment();
+    api.temporal.goToMark('one');
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  it('should list marks and replace a reused label', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+
+    api.temporal.mark('start');
+    useStore.getState().increment();
+    api.temporal.mark('after');
+    useStore.getState().increment();
+    api.temporal.mark('start');
+
+    expect(api.temporal.listMarks().map((m: any) => [m.label, m.position])).toEqual([
+      ['after', 1],
+      ['start', 2],
+    ]);
+  });
+
+  it('should throw for an unknown mark', () => {
+    const api = createCounter() as any;
+    expect(() => api.temporal.goToMark('missing')).toThrow('Mark "missing" not found');
+  });
+
+  it('should keep marks across branch switches', async () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+    await new Promise((r) => queueMicrotask(r));
+
+    useStore.getState().increment();
+    useStore.getState().increment();
+    api.temporal.mark('main-two');
+
+    const experiment = api.branch.fork('experiment');
+    api.branch.switch(experiment.id);
+    useStore.getState().increment();
+    api.temporal.mark('experiment-three');
+
+    api.branch.switch('main');
+    expect(api.temporal.listMarks()).toHaveLength(2);
+
+    api.temporal.goToMark('experiment-three');
+    expect(api.branch.active().id).toBe(experiment.id);
+    expect(useStore.getState().count).toBe(3);
+
+    api.temporal.goToMark('main-two');
+    expect(api.branch.active().id).toBe('main');
+    expect(useStore.getState().count).toBe(2);
+  });
+
+  it('should include marks in timeline:update payloads', () => {
+    const useStore = createCounter();
+    const api = useStore as any;
+    const payloads: any[] = [];
+    const unsub = bridge.on('timeline:update', (event) => payloads.push(event.payload));
+
+    useStore.getState().increment();
+    api.temporal.mark('one');
+    unsub();
+
+    expect(payloads.at(-1)).toMatchObject({
+      position: 1,
+      marks: [{ label: 'one', position: 1 }],
+    });
+  });
+});
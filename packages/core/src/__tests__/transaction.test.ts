@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { create } from '../createStore';
+import { registry } from '../registry';
+import { transaction } from '../transaction';
+import { globalTimeline } from '../globalTimeline';
+
+beforeEach(() => {
+  registry.clear();
+  globalTimeline.clear();
+});
+
+describe('transaction', () => {
+  function createStores() {
+    const counter = create<{ count: number; increment: () => void }>(
+      (set) => ({
+        count: 0,
+        increment: () => set((draft: any) => { draft.count += 1; }),
+      }),
+      { name: 'counter', devtools: false }
+    );
+    const todo = create<{ todos: string[]; add: (text: string) => void }>(
+      (set) => ({
+        todos: [],
+        add: (text: string) => set((draft: any) => { draft.todos.push(text); }),
+      }),
+      { name: 'todo', devtools: false }
+    );
+    return { counter: counter as any, todo: todo as any };
+  }
+
+  it('should record one timeline step per participating store', () => {
+    const { counter, todo } = createStores();
+
+    transaction(() => {
+      counter.getState().increment();
+      counter.getState().increment();
+      todo.getState().add('a');
+      todo.getState().add('b');
+    });
+
+    expect(counter.getState().count).toBe(2);
+    expect(todo.getState().todos).toEqual(['a', 'b']);
+    expect(counter.temporal.position).toBe(1);
+    expect(todo.temporal.position).toBe(1);
+  });
+
+  it('should expose intermediate state inside the transaction', () => {
+    const { counter } = createStores();
+
+    let seen = -1;
+    transaction(() => {
+      counter.getState().increment();
+      seen = counter.getState().count;
+      counter.getState().increment();
+    });
+
+    expect(seen).toBe(1);
+  });
+
+  it('should log one inspector entry per store', () => {
+    const { counter, todo } = createStores();
+
+    transaction(() => {
+      counter.getState().increment();
+      counter.getState().increment();
+      todo.getState().add('a');
+    }, 'bulk-update');
+
+    const counterLog = counter.inspector.getActionLog();
+    expect(counterLog.length).toBe(1);
+    expect(counterLog[0].actionName).toBe('bulk-update');
+    expect(todo.inspector.getActionLog().length).toBe(1);
+  });
+
+  it('should undo and redo every store together via globalTimeline', () => {
+    const { counter, todo } = createStores();
+
+    counter.getState().increment();
+    transaction(() => {
+      counter.getState().increment();
+      todo.getState().add('a');
+    });
+
+    expect(globalTimeline.getTransactions().length).toBe(1);
+
+    globalTimeline.undo();
+    expect(counter.getState().count).toBe(1);
+    expect(todo.getState().todos).toEqual([]);
+    expect(globalTimeline.canRedo()).toBe(true);
+
+    globalTimeline.redo();
+    expect(counter.getState().count).toBe(2);
+    expect(todo.getState().todos).toEqual(['a']);
+  });
+
+  it('should undo on the branch the transaction ran on', async () => {
+    const { counter, todo } = createStores();
+    await new Promise((r) => queueMicrotask(r));
+
+    transaction(() => {
+      counter.getState().increment();
+      todo.getState().add('a');
+    });
+    const branch = counter.branch.fork('experiment');
+    counter.branch.switch(branch.id);
+    counter.getState().increment();
+
+    globalTimeline.undo();
+    expect(counter.branch.active().id).toBe('main');
+    expect(counter.getState().count).toBe(0);
+    expect(todo.getState().todos).toEqual([]);
+
+    counter.branch.switch(branch.id);
+    expect(counter.getState().count).toBe(2);
+  });
+
+  it('should roll back every store when the transaction throws', () => {
+    const { counter, todo } = createStores();
+
+    expect(() =>
+      transaction(() => {
+        counter.getState().increment();
+        todo.getState().add('a');
+        throw new Error('boom');
+      })
+    ).toThrow('boom');
+
+    expect(counter.getState().count).toBe(0);
+    expect(todo.getState().todos).toEqual([]);
+    expect(counter.temporal.position).toBe(0);
+    expect(counter.inspector.getActionLog().length).toBe(0);
+    expect(globalTimeline.getTransactions().length).toBe(0);
+
+    // Stores keep working normally afterwards
+    counter.getState().increment();
+    expect(counter.temporal.position).toBe(1);
+    expect(counter.inspector.getActionLog().length).toBe(1);
+  });
+
+  it('should join nested transactions into the outer one', () => {
+    const { counter, todo } = createStores();
+
+    transaction(() => {
+      counter.getState().increment();
+      transaction(() => {
+        todo.getState().add('a');
+      });
+    });
+
+    expect(globalTimeline.getTransactions().length).toBe(1);
+    expect(globalTimeline.getTransactions()[0].stores.length).toBe(2);
+  });
+
+  it('should return the callback result', () => {
+    createStores();
+    expect(transaction(() => 42)).toBe(42);
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { generateId, deepClone, deepDiff, extractActionName } from '../utils';
+import {
+  generateId,
+  deepClone,
+  extractActionName,
+  threeWayMerge,
+  findUnresolvablePatch,
+} from '../utils';
 
 describe('generateId', () => {
   it('should generate unique ids', () => {
@@ -19,52 +25,99 @@ describe('deepClone', () => {
   });
 });
 
-describe('deepDiff', () => {
-  it('should detect added keys', () => {
-    const diff = deepDiff({ a: 1 }, { a: 1, b: 2 });
-    expect(diff.added).toEqual([{ path: ['b'], value: 2 }]);
-    expect(diff.removed).toEqual([]);
-    expect(diff.changed).toEqual([]);
+describe('extractActionName', () => {
+  it('should extract function name', () => {
+    function increment() {}
+    expect(extractActionName(increment)).toBe('increment');
   });
 
-  it('should detect removed keys', () => {
-    const diff = deepDiff({ a: 1, b: 2 }, { a: 1 });
-    expect(diff.removed).toEqual([{ path: ['b'], value: 2 }]);
+  it('should handle anonymous functions', () => {
+    expect(extractActionName(() => {})).toBe('anonymous');
   });
 
-  it('should detect changed values', () => {
-    const diff = deepDiff({ a: 1 }, { a: 2 });
-    expect(diff.changed).toEqual([{ path: ['a'], from: 1, to: 2 }]);
+  it('should handle object partials', () => {
+    expect(extractActionName({ count: 1 })).toBe('set(count)');
+    expect(extractActionName({ a: 1, b: 2 })).toBe('set(a, b)');
+  });
+});
+
+describe('threeWayMerge', () => {
+  it('should take changes made only on theirs', () => {
+    const result = threeWayMerge({ a: 1, b: 1 }, { a: 1, b: 1 }, { a: 2, b: 1 });
+    expect(result.changes).toEqual([{ op: 'set', path: ['a'], value: 2 }]);
+    expect(result.conflicts).toEqual([]);
   });
 
-  it('should handle nested objects', () => {
-    const diff = deepDiff(
+  it('should ignore changes made only on ours', () => {
+    const result = threeWayMerge({ a: 1 }, { a: 5 }, { a: 1 });
+    expect(result.changes).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should report removals and additions', () => {
+    const result = threeWayMerge({ a: 1, b: 2 }, { a: 1, b: 2 }, { a: 1, c: 3 });
+    expect(result.changes).toContainEqual({ op: 'remove', path: ['b'] });
+    expect(result.changes).toContainEqual({ op: 'set', path: ['c'], value: 3 });
+  });
+
+  it('should merge nested objects key by key', () => {
+    const result = threeWayMerge(
       { user: { name: 'Alice', age: 30 } },
+      { user: { name: 'Alice', age: 31 } },
       { user: { name: 'Bob', age: 30 } }
     );
-    expect(diff.changed).toEqual([{ path: ['user', 'name'], from: 'Alice', to: 'Bob' }]);
+    expect(result.changes).toEqual([{ op: 'set', path: ['user', 'name'], value: 'Bob' }]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should report conflicting changes', () => {
+    const result = threeWayMerge({ a: 1 }, { a: 2 }, { a: 3 });
+    expect(result.changes).toEqual([]);
+    expect(result.conflicts).toEqual([{ path: ['a'], base: 1, ours: 2, theirs: 3 }]);
   });
 
-  it('should detect no differences for equal objects', () => {
-    const diff = deepDiff({ a: 1, b: { c: 3 } }, { a: 1, b: { c: 3 } });
-    expect(diff.added).toEqual([]);
-    expect(diff.removed).toEqual([]);
-    expect(diff.changed).toEqual([]);
+  it('should not conflict when both sides made the same change', () => {
+    const result = threeWayMerge({ list: [1] }, { list: [1, 2] }, { list: [1, 2] });
+    expect(result.changes).toEqual([]);
+    expect(result.conflicts).toEqual([]);
   });
 });
 
-describe('extractActionName', () => {
-  it('should extract function name', () => {
-    function increment() {}
-    expect(extractActionName(increment)).toBe('increment');
+describe('findUnresolvablePatch', () => {
+  it('should accept patches whose paths exist', () => {
+    const state = { user: { name: 'Alice' }, list: [1] };
+    expect(
+      findUnresolvablePatch(state, [
+        { op: 'replace', path: ['user', 'name'], value: 'Bob' },
+        { op: 'add', path: ['list', 1], value: 2 },
+      ])
+    ).toBeNull();
   });
 
-  it('should handle anonymous functions', () => {
-    expect(extractActionName(() => {})).toBe('anonymous');
+  it('should return the first missing parent path', () => {
+    expect(
+      findUnresolvablePatch({ user: null }, [{ op: 'replace', path: ['user', 'name'], value: 'Bob' }])
+    ).toEqual(['user']);
   });
 
-  it('should handle object partials', () => {
-    expect(extractActionName({ count: 1 })).toBe('set(count)');
-    expect(extractActionName({ a: 1, b: 2 })).toBe('set(a, b)');
+  it('should reject replace and remove on missing keys', () => {
+    expect(
+      findUnresolvablePatch({ user: {} }, [{ op: 'remove', path: ['user', 'name'] }])
+    ).toEqual(['user', 'name']);
+  });
+
+  it('should let later patches depend on earlier ones', () => {
+    expect(
+      findUnresolvablePatch({}, [
+        { op: 'add', path: ['user'], value: {} },
+        { op: 'replace', path: ['user', 'name'], value: 'Bob' },
+      ])
+    ).toEqual(['user', 'name']);
+    expect(
+      findUnresolvablePatch({}, [
+        { op: 'add', path: ['user'], value: { name: 'Alice' } },
+        { op: 'replace', path: ['user', 'name'], value: 'Bob' },
+      ])
+    ).toBeNull();
   });
 });
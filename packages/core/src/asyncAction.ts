@@ -0,0 +1,88 @@
+import type { AsyncActionOptions } from './types.js';
+
+/**
+ * One tracked action call. Every set() made while it runs — including, for
+ * async actions, after an await — is logged with its id as correlationId.
+ * Calls made synchronously from it are frames that share its id.
+ */
+export interface ActionCall {
+  id: string;
+  /** Qualified name, `store/action` */
+  actionName: string;
+  args: unknown[];
+  /** Store whose action this frame runs */
+  storeId: string;
+  /** Record every change of the call as a single undo step */
+  singleUndo: boolean;
+  /** The call this one was made from, if nested */
+  parent: ActionCall | null;
+}
+
+/** Marker attached to functions created by asyncAction() */
+export const ASYNC_ACTION = Symbol('asyncAction');
+
+export interface AsyncActionMarker {
+  name: string;
+  options: AsyncActionOptions;
+}
+
+// Calls whose synchronous part is running right now (innermost last)
+const stack: ActionCall[] = [];
+
+/** The action call whose synchronous part is running, if any (used by middlewares) */
+export function getCurrentCall(): ActionCall | null {
+  return stack.length > 0 ? stack[stack.length - 1] : null;
+}
+
+/** Names of the calls leading to `call`, outermost first */
+export function getCallStack(call: ActionCall): string[] {
+  const names: string[] = [];
+  for (let frame: ActionCall | null = call; frame; frame = frame.parent) {
+    names.unshift(frame.actionName);
+  }
+  return names;
+}
+
+/** Run `fn` with `call` as the current action call */
+export function runInCall<R>(call: ActionCall, fn: () => R): R {
+  stack.push(call);
+  try {
+    return fn();
+  } finally {
+    stack.pop();
+  }
+}
+
+/**
+ * Declare a store action as async so the inspector logs it as one flow:
+ * a `start` entry, every set() made until the returned promise settles, and
+ * a `success` or `error` entry, all linked by one correlation id.
+ *
+ * Actions that return a promise are detected automatically as well; use
+ * asyncAction() to name the flow or to set per-action options.
+ *
+ * @example
+ * ```ts
+ * const useUserStore = create((set) => ({
+ *   user: null,
+ *   loading: false,
+ *   fetchUser: asyncAction('fetchUser', async (id: string) => {
+ *     set({ loading: true });
+ *     const user = await api.getUser(id);
+ *     set({ user, loading: false });
+ *   }, { singleUndo: true }),
+ * }));
+ * ```
+ */
+export function asyncAction<A extends unknown[], R>(
+  name: string,
+  fn: (...args: A) => Promise<R>,
+  options: AsyncActionOptions = {}
+): (...args: A) => Promise<R> {
+  const action = function (this: unknown, ...args: A) {
+    return fn.apply(this, args);
+  };
+  const marker: AsyncActionMarker = { name, options };
+  Object.defineProperty(action, ASYNC_ACTION, { value: marker });
+  return action;
+}
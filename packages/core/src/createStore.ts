@@ -1,8 +1,13 @@
 import { create as zustandCreate, type StateCreator } from 'zustand';
-import { devtools } from 'zustand/middleware';
 import { timeline } from './middleware/timeline.js';
 import { branching } from './middleware/branching.js';
 import { inspector } from './middleware/inspector.js';
+import { persist } from './middleware/persist.js';
+import { recorder } from './middleware/recorder.js';
+import { devtools } from './middleware/devtools.js';
+import { computed } from './middleware/computed.js';
+import { validation } from './middleware/validation.js';
+import { tracking } from './middleware/tracking.js';
 import { registry } from './registry.js';
 import { generateId } from './utils.js';
 import type {
@@ -10,6 +15,8 @@ import type {
   EnhancedStoreApi,
   TimelineConfig,
   BranchingConfig,
+  PersistConfig,
+  RecorderConfig,
 } from './types.js';
 
 /**
@@ -54,31 +61,68 @@ export function create<T>(
         ? { enabled: true }
         : config.branching;
 
+  const persistConfig: PersistConfig =
+    config?.persist === false || config?.persist === undefined
+      ? { enabled: false }
+      : config.persist === true
+        ? { enabled: true }
+        : config.persist;
+
+  const recorderConfig: RecorderConfig =
+    config?.recorder === false || config?.recorder === undefined
+      ? { enabled: false }
+      : config.recorder === true
+        ? { enabled: true }
+        : config.recorder;
+
   const enableDevtools = config?.devtools !== false;
 
   // Build middleware chain (inside-out):
-  // timeline → branching → inspector → devtools
+  // tracking → recorder → validation → timeline → computed → branching → persist → inspector → devtools
   //
+  // tracking wraps the action functions to correlate set() calls and async flows
+  // recorder wraps the action functions to capture calls for replay
+  // validation attaches the schema and optionally checks every set()
   // timeline wraps set() to route through Travels (mutative drafts)
+  // computed adds derived values to every state the timeline produces
   // branching reads __travels to save/restore per-branch history
+  // persist saves branches + history to storage and rehydrates them
   // inspector logs every set() call with RFC 6902 patches
-  let composed: any = timeline(initializer as any, timelineConfig);
+  let composed: any = tracking(initializer as any, config?.asyncActions);
+  composed = recorder(composed, recorderConfig);
+  composed = validation(composed, {
+    schema: config?.schema,
+    validateOnSet: config?.validateOnSet,
+  });
+  composed = timeline(composed, timelineConfig);
+  composed = computed(composed, config?.computed);
   composed = branching(composed, branchingConfig);
-  composed = inspector(composed);
+  composed = persist(composed, persistConfig);
+  composed = inspector(composed, config?.inspector);
 
-  if (enableDevtools && typeof window !== 'undefined') {
+  // devtools maps Redux DevTools jumps onto the timeline
+  if (enableDevtools) {
     composed = devtools(composed, { name: storeName });
   }
 
+  // Attach metadata to the underlying store api before the middlewares
+  // run, so they can read __id/__name (bridge events, persist keys)
+  const withMetadata = (set: any, get: any, storeApi: any) => {
+    storeApi.__id = storeId;
+    storeApi.__name = storeName;
+    storeApi.__version = config?.version ?? 1;
+    storeApi.__migrate = config?.migrate;
+    return composed(set, get, storeApi);
+  };
+
   // Create the Zustand store
-  const useStore = zustandCreate(composed);
+  const useStore = zustandCreate(withMetadata);
   const api = useStore as any;
 
-  // Attach metadata
+  // Attach metadata to the hook as well
   api.__id = storeId;
   api.__name = storeName;
 
-  // Propagate metadata to the underlying store api
   const storeApi: EnhancedStoreApi<T> = api;
 
   // Register in global registry
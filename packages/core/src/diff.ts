@@ -0,0 +1,354 @@
+/**
+ * Structural diff between two states.
+ *
+ * Objects are compared key by key. Arrays are compared by index, or — when
+ * an `arrayKey` is given and every item has a distinct key — by identity,
+ * so insertions, removals and moves inside an array are reported as such
+ * instead of as index-by-index changes.
+ *
+ * The same comparison is available as a BranchDiffResult (for display) and
+ * as RFC 6902 JSON Patch operations (to turn one state into the other).
+ */
+import { create as mutativeCreate } from 'mutative';
+import type { BranchDiffResult, DiffOptions, JsonPatchOperation } from './types.js';
+import { deepClone, isStructural } from './utils.js';
+import { serializer } from './serializer.js';
+import { parsePath } from './pathFilter.js';
+
+type Path = string[];
+type KeyFn = (item: unknown, path: Path) => unknown;
+
+function keyFunction(arrayKey: DiffOptions['arrayKey']): KeyFn | null {
+  if (arrayKey === undefined) return null;
+  if (typeof arrayKey === 'function') return arrayKey;
+  return (item) => (isStructural(item) && !Array.isArray(item) ? item[arrayKey] : undefined);
+}
+
+/** Keys of every item, or null when the array has to be compared by index */
+function itemKeys(items: unknown[], path: Path, keyOf: KeyFn | null): unknown[] | null {
+  if (!keyOf) return null;
+  const keys = items.map((item) => keyOf(item, path));
+  if (keys.some((key) => key === undefined) || new Set(keys).size !== keys.length) return null;
+  return keys;
+}
+
+/** Both values are objects, or both arrays, so they are compared member by member */
+function sameShape(a: unknown, b: unknown): boolean {
+  return isStructural(a) && isStructural(b) && Array.isArray(a) === Array.isArray(b);
+}
+
+/** Equality for leaves; Dates, Maps and other instances compare by their serialized form */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  try {
+    return serializer.stringify(a) === serializer.stringify(b);
+  } catch {
+    return false;
+  }
+}
+
+/** Indexes (into `values`) of a longest strictly increasing subsequence */
+function longestIncreasing(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev = new Array<number>(values.length).fill(-1);
+  for (let i = 0; i < values.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < values[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+  const result = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = prev[i]) {
+    result.add(i);
+  }
+  return result;
+}
+
+// ============================================
+// Structured diff
+// ============================================
+
+/** Differences between two states, with array items matched by `arrayKey` */
+export function diffStates(a: unknown, b: unknown, options: DiffOptions = {}): BranchDiffResult {
+  const result: BranchDiffResult = { added: [], removed: [], changed: [], moved: [] };
+  collect(a, b, [], result, keyFunction(options.arrayKey));
+  return result;
+}
+
+function collect(a: unknown, b: unknown, path: Path, out: BranchDiffResult, keyOf: KeyFn | null) {
+  if (!sameShape(a, b)) {
+    if (!sameValue(a, b)) out.changed.push({ path, from: a, to: b });
+    return;
+  }
+
+  if (!Array.isArray(a)) {
+    const objA = a as Record<string, unknown>;
+    const objB = b as Record<string, unknown>;
+    for (const key of new Set([...Object.keys(objA), ...Object.keys(objB)])) {
+      if (!(key in objA)) out.added.push({ path: [...path, key], value: objB[key] });
+      else if (!(key in objB)) out.removed.push({ path: [...path, key], value: objA[key] });
+      else collect(objA[key], objB[key], [...path, key], out, keyOf);
+    }
+    return;
+  }
+
+  const arrA = a;
+  const arrB = b as unknown[];
+  const keysA = itemKeys(arrA, path, keyOf);
+  const keysB = keysA && itemKeys(arrB, path, keyOf);
+
+  if (!keysA || !keysB) {
+    for (let i = 0; i < Math.max(arrA.length, arrB.length); i++) {
+      const itemPath = [...path, String(i)];
+      if (i >= arrA.length) out.added.push({ path: itemPath, value: arrB[i] });
+      else if (i >= arrB.length) out.removed.push({ path: itemPath, value: arrA[i] });
+      else collect(arrA[i], arrB[i], itemPath, out, keyOf);
+    }
+    return;
+  }
+
+  const indexA = new Map(keysA.map((key, i) => [key, i]));
+  const inB = new Set(keysB);
+  keysA.forEach((key, i) => {
+    if (!inB.has(key)) out.removed.push({ path: [...path, String(i)], value: arrA[i] });
+  });
+
+  // Items kept in relative order are not moves; the others are
+  const common = keysB.flatMap((key, i) => (indexA.has(key) ? [{ from: indexA.get(key)!, to: i }] : []));
+  const inOrder = longestIncreasing(common.map((c) => c.from));
+  common.forEach((c, n) => {
+    if (!inOrder.has(n)) out.moved.push({ path: [...path, String(c.to)], from: c.from, to: c.to });
+  });
+
+  keysB.forEach((key, i) => {
+    const itemPath = [...path, String(i)];
+    if (!indexA.has(key)) out.added.push({ path: itemPath, value: arrB[i] });
+    else collect(arrA[indexA.get(key)!], arrB[i], itemPath, out, keyOf);
+  });
+}
+
+// ============================================
+// JSON Patch
+// ============================================
+
+/** JSON Pointer for a path */
+export function toPointer(path: Path): string {
+  return path.map((key) => '/' + key.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/** Path segments of a JSON Pointer */
+export function fromPointer(pointer: string): Path {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer: "${pointer}"`);
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * RFC 6902 operations that turn `a` into `b`, to be applied in order.
+ * Keyed array items are moved rather than removed and re-added.
+ */
+export function diffAsJsonPatch(a: unknown, b: unknown, options: DiffOptions = {}): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  emit(a, b, [], ops, keyFunction(options.arrayKey));
+  return ops;
+}
+
+function emit(a: unknown, b: unknown, path: Path, ops: JsonPatchOperation[], keyOf: KeyFn | null) {
+  if (!sameShape(a, b)) {
+    if (!sameValue(a, b)) ops.push({ op: 'replace', path: toPointer(path), value: deepClone(b) });
+    return;
+  }
+
+  if (!Array.isArray(a)) {
+    const objA = a as Record<string, unknown>;
+    const objB = b as Record<string, unknown>;
+    for (const key of Object.keys(objA)) {
+      if (!(key in objB)) ops.push({ op: 'remove', path: toPointer([...path, key]) });
+    }
+    for (const key of Object.keys(objB)) {
+      if (!(key in objA)) ops.push({ op: 'add', path: toPointer([...path, key]), value: deepClone(objB[key]) });
+      else emit(objA[key], objB[key], [...path, key], ops, keyOf);
+    }
+    return;
+  }
+
+  const arrA = a;
+  const arrB = b as unknown[];
+  const keysA = itemKeys(arrA, path, keyOf);
+  const keysB = keysA && itemKeys(arrB, path, keyOf);
+
+  if (!keysA || !keysB) {
+    const shared = Math.min(arrA.length, arrB.length);
+    for (let i = 0; i < shared; i++) emit(arrA[i], arrB[i], [...path, String(i)], ops, keyOf);
+    for (let i = shared; i < arrB.length; i++) {
+      ops.push({ op: 'add', path: toPointer([...path, String(i)]), value: deepClone(arrB[i]) });
+    }
+    for (let i = arrA.length - 1; i >= shared; i--) {
+      ops.push({ op: 'remove', path: toPointer([...path, String(i)]) });
+    }
+    return;
+  }
+
+  // Track the array as the operations so far leave it
+  const indexA = new Map(keysA.map((key, i) => [key, i]));
+  const inB = new Set(keysB);
+  const working = [...keysA];
+
+  for (let i = keysA.length - 1; i >= 0; i--) {
+    if (inB.has(keysA[i])) continue;
+    ops.push({ op: 'remove', path: toPointer([...path, String(i)]) });
+    working.splice(i, 1);
+  }
+
+  keysB.forEach((key, i) => {
+    const itemPath = [...path, String(i)];
+    if (!indexA.has(key)) {
+      ops.push({ op: 'add', path: toPointer(itemPath), value: deepClone(arrB[i]) });
+      working.splice(i, 0, key);
+      return;
+    }
+    const at = working.indexOf(key);
+    if (at !== i) {
+      ops.push({ op: 'move', from: toPointer([...path, String(at)]), path: toPointer(itemPath) });
+      working.splice(at, 1);
+      working.splice(i, 0, key);
+    }
+    emit(arrA[indexA.get(key)!], arrB[i], itemPath, ops, keyOf);
+  });
+}
+
+/** Apply one operation to a mutable container; paths are relative to it */
+function applyOperation(root: any, op: JsonPatchOperation) {
+  const path = fromPointer(op.path);
+  const parent = path.slice(0, -1).reduce((node, key) => {
+    if (node === null || typeof node !== 'object' || !(key in node)) {
+      throw new Error(`JSON Patch path does not exist: "${op.path}"`);
+    }
+    return node[key];
+  }, root);
+  const key = path[path.length - 1];
+
+  if (op.op === 'move') {
+    const value = getAt(root, op.from);
+    applyOperation(root, { op: 'remove', path: op.from });
+    applyOperation(root, { op: 'add', path: op.path, value });
+    return;
+  }
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : Number(key);
+    if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+      throw new Error(`JSON Patch index out of range: "${op.path}"`);
+    }
+    if (op.op === 'add') parent.splice(index, 0, op.value);
+    else if (op.op === 'remove') parent.splice(index, 1);
+    else parent[index] = op.value;
+    return;
+  }
+
+  if (op.op === 'remove') delete parent[key];
+  else parent[key] = op.value;
+}
+
+function getAt(root: any, pointer: string): unknown {
+  return fromPointer(pointer).reduce((node, key) => {
+    if (node === null || typeof node !== 'object' || !(key in node)) {
+      throw new Error(`JSON Patch path does not exist: "${pointer}"`);
+    }
+    return node[key];
+  }, root);
+}
+
+/**
+ * Apply JSON Patch operations to a mutable object (such as a mutative
+ * draft). Operations on the whole document are not supported here.
+ */
+export function applyOperations(target: object, ops: JsonPatchOperation[]): void {
+  for (const op of ops) {
+    if (op.path === '') throw new Error('Cannot replace the whole state in place');
+    applyOperation(target, 'value' in op ? { ...op, value: deepClone(op.value) } : op);
+  }
+}
+
+/** Apply JSON Patch operations to a state without modifying it */
+export function applyJsonPatch<T>(state: T, ops: JsonPatchOperation[]): T {
+  let result = state;
+  for (const op of ops) {
+    if (op.path === '') {
+      // Operations on the whole document replace it
+      if (op.op === 'remove') throw new Error('Cannot remove the whole state');
+      result = (op.op === 'move' ? getAt(result, op.from) : deepClone(op.value)) as T;
+      continue;
+    }
+    result = mutativeCreate(result as object, (draft: any) => {
+      applyOperations(draft, [op]);
+    }) as T;
+  }
+  return result;
+}
+
+/**
+ * Operations that make the changes in a BranchDiffResult, optionally only
+ * those at or under `paths`. Paths in the result address array items as
+ * they sit in the second state, so containers are restructured shallowest
+ * first (removals last index first, then additions) and changed values are
+ * written once every array has its final layout.
+ *
+ * Moved items cannot be replayed from a BranchDiffResult; diffs whose moves
+ * touch the selected paths throw. Use JSON Patch output for those.
+ */
+export function changesToJsonPatch(diff: BranchDiffResult, paths?: string[]): JsonPatchOperation[] {
+  const prefixes = paths?.map(parsePath);
+  const selected = ({ path }: { path: Path }) =>
+    !prefixes || prefixes.some((prefix) => startsWith(path, prefix));
+
+  const removed = diff.removed.filter(selected);
+  const added = diff.added.filter(selected);
+  const changed = diff.changed.filter(selected);
+
+  for (const move of diff.moved) {
+    const container = move.path.slice(0, -1);
+    if ([...removed, ...added, ...changed].some((entry) => startsWith(entry.path, container))) {
+      throw new Error(
+        `Cannot apply reordered items of "${toPointer(container)}" from a diff result; ` +
+          `use branch.diff(a, b, { format: 'json-patch' }) instead`
+      );
+    }
+  }
+
+  const ops: JsonPatchOperation[] = [];
+  const depths = new Set([...removed, ...added].map((entry) => entry.path.length));
+  for (const depth of [...depths].sort((x, y) => x - y)) {
+    for (const r of removed.filter((e) => e.path.length === depth).reverse()) {
+      ops.push({ op: 'remove', path: toPointer(r.path) });
+    }
+    for (const a of added.filter((e) => e.path.length === depth)) {
+      ops.push({ op: 'add', path: toPointer(a.path), value: a.value });
+    }
+  }
+  for (const c of changed) ops.push({ op: 'replace', path: toPointer(c.path), value: c.to });
+  return ops;
+}
+
+function startsWith(path: Path, prefix: Path): boolean {
+  return prefix.every((key, i) => path[i] === key);
+}
+
+/** Operations at or under one of `paths` (`user`, `user.name` or `/user/name`) */
+export function selectOperations(ops: JsonPatchOperation[], paths: string[]): JsonPatchOperation[] {
+  const prefixes = paths.map(parsePath);
+  const selected = (pointer: string) => {
+    const path = fromPointer(pointer);
+    return prefixes.some((prefix) => startsWith(path, prefix));
+  };
+  return ops.filter((op) => selected(op.path) && (op.op !== 'move' || selected(op.from)));
+}
@@ -0,0 +1,173 @@
+import type {
+  EnhancedStoreApi,
+  GlobalHistoryEntry,
+  InspectorQuery,
+  TransactionRecord,
+} from './types.js';
+import { registry } from './registry.js';
+
+/**
+ * Registry-level timeline across all stores.
+ *
+ * - Transactions: each record holds the timeline position of every
+ *   participating store before and after, so undo/redo moves them together.
+ * - History: every store's inspector log merged in wall-clock order, with
+ *   go(globalIndex) scrubbing all stores to their state at that moment.
+ *
+ * Positions are per branch, so moving a store to one first switches it back
+ * to the branch it was recorded on; positions of deleted branches are skipped.
+ */
+class GlobalTimeline {
+  private records: TransactionRecord[] = [];
+  private index = 0;
+  private listeners = new Set<() => void>();
+  private scrubbing = false;
+
+  /**
+   * True while go() is moving stores. The inspector skips logging then,
+   * so scrubbing does not append to the history being scrubbed.
+   */
+  get isScrubbing(): boolean {
+    return this.scrubbing;
+  }
+
+  /** Add a committed transaction, discarding anything that was undone */
+  record(entry: TransactionRecord): void {
+    this.records.splice(this.index);
+    this.records.push(entry);
+    this.index = this.records.length;
+    this.notify();
+  }
+
+  /** Roll every store in the last transaction back to its previous position */
+  undo(): void {
+    if (!this.canUndo()) return;
+    this.index -= 1;
+    for (const step of this.records[this.index].stores) {
+      const store = registry.get(step.storeId)?.store;
+      if (store) moveTo(store, step.branchId, step.from);
+    }
+    this.notify();
+  }
+
+  /** Re-apply the next undone transaction */
+  redo(): void {
+    if (!this.canRedo()) return;
+    for (const step of this.records[this.index].stores) {
+      const store = registry.get(step.storeId)?.store;
+      if (store) moveTo(store, step.branchId, step.to);
+    }
+    this.index += 1;
+    this.notify();
+  }
+
+  canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  canRedo(): boolean {
+    return this.index < this.records.length;
+  }
+
+  /** Number of transactions currently applied */
+  get position(): number {
+    return this.index;
+  }
+
+  getTransactions(): TransactionRecord[] {
+    return this.records.map((r) => ({ ...r, stores: r.stores.map((s) => ({ ...s })) }));
+  }
+
+  /**
+   * Every store's action log merged by timestamp. Entries logged in the
+   * same millisecond keep store registration order.
+   */
+  getHistory(): GlobalHistoryEntry[] {
+    const merged: GlobalHistoryEntry[] = [];
+    for (const entry of registry.getAll()) {
+      for (const logEntry of entry.store.inspector.getActionLog()) {
+        merged.push({ ...logEntry, storeId: entry.id, storeName: entry.name });
+      }
+    }
+    return merged.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /** Entries of every store matching `filter`, merged by timestamp */
+  query(filter: InspectorQuery): GlobalHistoryEntry[] {
+    const merged: GlobalHistoryEntry[] = [];
+    for (const entry of registry.getAll()) {
+      if (filter.storeIds && !filter.storeIds.includes(entry.id)) continue;
+      for (const logEntry of entry.store.inspector.query(filter)) {
+        merged.push({ ...logEntry, storeId: entry.id, storeName: entry.name });
+      }
+    }
+    return merged.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Put every store back to its state right after history entry
+   * `globalIndex`. Stores with no entry up to that point go to position 0.
+   */
+  go(globalIndex: number): void {
+    const history = this.getHistory();
+    if (globalIndex < 0 || globalIndex >= history.length) {
+      throw new Error(
+        `Global index ${globalIndex} is out of range (0-${history.length - 1})`
+      );
+    }
+
+    const targets = new Map<string, { branchId?: string; position: number }>();
+    for (const entry of history.slice(0, globalIndex + 1)) {
+      if (entry.position !== undefined) {
+        targets.set(entry.storeId, { branchId: entry.branchId, position: entry.position });
+      }
+    }
+
+    this.scrubbing = true;
+    try {
+      for (const entry of registry.getAll()) {
+        const target = targets.get(entry.id);
+        moveTo(entry.store, target?.branchId, target?.position ?? 0);
+      }
+    } finally {
+      this.scrubbing = false;
+    }
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.records = [];
+    this.index = 0;
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Move a store's timeline to `position` on `branchId`, switching branches
+ * first when needed (without consulting onBeforeSwitch, as for any internal
+ * jump). Does nothing when the branch no longer exists.
+ */
+function moveTo(store: EnhancedStoreApi<any>, branchId: string | undefined, position: number): void {
+  const branches = (store as any).__branches;
+  if (branches && branchId !== undefined && branchId !== branches.activeId()) {
+    if (!branches.has(branchId)) return;
+    branches.activate(branchId);
+  }
+  if (store.temporal.position !== position) store.temporal.go(position);
+}
+
+/** Global cross-store timeline singleton */
+export const globalTimeline = new GlobalTimeline();
@@ -3,26 +3,94 @@ export { create } from './createStore.js';
 export { registry } from './registry.js';
 export { bridge } from './bridge.js';
 export { snapshot } from './snapshot.js';
+export { serializer } from './serializer.js';
+export { asyncAction } from './asyncAction.js';
 export { mock } from './middleware/mock.js';
+export { transaction } from './transaction.js';
+export { globalTimeline } from './globalTimeline.js';
+export { StateValidationError, validateState } from './schema.js';
+export { diffStates, diffAsJsonPatch, applyJsonPatch } from './diff.js';
+export { getStoreVersion, getStoreVersions, migrateState, migrateStores } from './migrate.js';
+export {
+  createMemoryStorage,
+  createLocalStorage,
+  createIndexedDBStorage,
+} from './storage.js';
 
 // Middleware (for advanced usage)
 export { timeline } from './middleware/timeline.js';
 export { branching } from './middleware/branching.js';
 export { inspector } from './middleware/inspector.js';
+export { persist } from './middleware/persist.js';
+export { recorder } from './middleware/recorder.js';
+export { devtools } from './middleware/devtools.js';
+export { computed } from './middleware/computed.js';
+export { validation } from './middleware/validation.js';
 
 // Types
 export type {
   StoreConfig,
   TimelineConfig,
+  CoalesceConfig,
+  CoalesceInfo,
+  TimelineMark,
   BranchingConfig,
+  PersistConfig,
+  DevtoolsConfig,
+  ComputedConfig,
+  StateSchema,
+  SchemaIssue,
+  StoreMigrate,
+  SerializerCodec,
+  AsyncActionOptions,
+  AsyncActionsConfig,
+  ValidationConfig,
+  PersistStorage,
+  PersistedState,
+  PersistedBranches,
+  PersistApi,
   TemporalApi,
   BranchData,
   BranchDiffResult,
+  BranchDiffOptions,
+  BranchTimelineOptions,
+  ForkOptions,
+  ApplyDiffOptions,
+  DiffOptions,
+  JsonPatchOperation,
   BranchApi,
+  BranchTreeNode,
+  CommonAncestor,
+  MergeStrategy,
+  MergeOptions,
+  MergeChange,
+  MergeConflict,
+  MergeResult,
+  CherryPickFailure,
+  CherryPickResult,
+  RebaseResult,
   ActionLogEntry,
   InspectorApi,
+  InspectorConfig,
+  InspectorQuery,
+  InspectorStats,
+  ActionProfile,
+  InspectorSession,
+  InspectorStorage,
+  RecorderConfig,
+  RecordedCall,
+  Recording,
+  ReplayOptions,
+  ReplayStep,
+  ReplayResult,
+  ReplayMismatch,
+  VerifyResult,
+  RecorderApi,
   EnhancedStoreApi,
   StoreRegistryEntry,
+  TransactionStoreStep,
+  TransactionRecord,
+  GlobalHistoryEntry,
   BridgeEvent,
   BridgeEventType,
   TravelPatches,
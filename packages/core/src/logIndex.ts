@@ -0,0 +1,100 @@
+import type { ActionLogEntry, InspectorQuery } from './types.js';
+import { parsePath } from './pathFilter.js';
+
+// Joins path segments into index keys; cannot appear in a key name
+const SEPARATOR = '\u0000';
+
+/**
+ * Lookup tables over an inspector log, kept in step with it: entries by
+ * action name and by every prefix of their patch paths. Entries are added
+ * at the end and removed from the front, so each list stays in log order.
+ */
+export class LogIndex {
+  private byName = new Map<string, ActionLogEntry[]>();
+  private byPath = new Map<string, ActionLogEntry[]>();
+  private seq = new Map<ActionLogEntry, number>();
+  private nextSeq = 0;
+
+  /** Index keys of every path an entry's patches touch, with all their prefixes */
+  private pathKeys(entry: ActionLogEntry): Set<string> {
+    const keys = new Set<string>();
+    for (const patch of entry.patches) {
+      const path = Array.isArray(patch.path) ? patch.path : parsePath(patch.path);
+      for (let i = 1; i <= path.length; i++) {
+        keys.add(path.slice(0, i).join(SEPARATOR));
+      }
+    }
+    return keys;
+  }
+
+  add(entry: ActionLogEntry): void {
+    this.seq.set(entry, this.nextSeq++);
+    append(this.byName, entry.actionName, entry);
+    for (const key of this.pathKeys(entry)) append(this.byPath, key, entry);
+  }
+
+  /** Remove the oldest entry of the log */
+  removeOldest(entry: ActionLogEntry): void {
+    this.seq.delete(entry);
+    shift(this.byName, entry.actionName);
+    for (const key of this.pathKeys(entry)) shift(this.byPath, key);
+  }
+
+  clear(): void {
+    this.byName.clear();
+    this.byPath.clear();
+    this.seq.clear();
+  }
+
+  /**
+   * Entries matching every given criterion, in log order. `log` is the
+   * indexed log, used when the query has no name or path criterion.
+   */
+  query(filter: InspectorQuery, log: readonly ActionLogEntry[]): ActionLogEntry[] {
+    const lists: ActionLogEntry[][] = [];
+
+    if (filter.actionName !== undefined) {
+      const names = [...this.byName.keys()].filter((name) => matchesName(name, filter.actionName!));
+      const entries = names.flatMap((name) => this.byName.get(name)!);
+      if (names.length > 1) entries.sort((a, b) => this.seq.get(a)! - this.seq.get(b)!);
+      lists.push(entries);
+    }
+    if (filter.pathPrefix !== undefined) {
+      const key = parsePath(filter.pathPrefix).join(SEPARATOR);
+      // An empty prefix matches every change
+      lists.push(key === '' ? log.filter((e) => e.patches.length > 0) : this.byPath.get(key) ?? []);
+    }
+
+    // Walk the shortest list and check the others by membership
+    lists.sort((a, b) => a.length - b.length);
+    const [candidates = log, ...others] = lists;
+    const sets = others.map((list) => new Set(list));
+
+    return candidates.filter(
+      (entry) =>
+        (filter.since === undefined || entry.timestamp >= filter.since) &&
+        (filter.until === undefined || entry.timestamp <= filter.until) &&
+        sets.every((set) => set.has(entry))
+    );
+  }
+}
+
+/** A string matches names containing it (case-insensitive); a RegExp is tested */
+function matchesName(name: string, pattern: string | RegExp): boolean {
+  if (typeof pattern === 'string') return name.toLowerCase().includes(pattern.toLowerCase());
+  pattern.lastIndex = 0; // global/sticky RegExps keep state between test() calls
+  return pattern.test(name);
+}
+
+function append(map: Map<string, ActionLogEntry[]>, key: string, entry: ActionLogEntry) {
+  const list = map.get(key);
+  if (list) list.push(entry);
+  else map.set(key, [entry]);
+}
+
+function shift(map: Map<string, ActionLogEntry[]>, key: string) {
+  const list = map.get(key);
+  if (!list) return;
+  list.shift();
+  if (list.length === 0) map.delete(key);
+}
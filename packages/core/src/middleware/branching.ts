@@ -4,17 +4,60 @@
  * Enables git-like branching for application state:
  * - fork: create a new branch from the current state
  * - switch: switch to a different branch (saves/restores travels state)
- * - diff: compare two branches
+ * - diff: compare two branches (as changes or as JSON Patch)
+ * - merge: three-way merge a branch into another using the fork snapshot
+ * - cherryPick: replay individual steps from another branch
+ * - rebase: replay a branch's steps on top of another branch's current state
+ * - applyDiff: copy selected differences onto a branch as one step
  * - delete/rename: manage branches
+ * - tree/ancestors/commonAncestor/descendants: query the fork graph
+ *
+ * Lifecycle hooks (onBeforeSwitch, onAfterSwitch, onFork, onDelete) come
+ * from BranchingConfig; each lifecycle change is also a bridge event.
  *
  * Sits on top of the timeline middleware; reads/writes __travels internals
  * to save and restore undo/redo history per branch.
  */
-import { Travels } from 'travels';
+import type { Travels } from 'travels';
+import { apply } from 'mutative';
 import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
-import type { BranchApi, BranchData, BranchDiffResult, BranchingConfig, TravelPatches } from '../types.js';
-import { deepClone, deepDiff, generateId } from '../utils.js';
+import type {
+  ApplyDiffOptions,
+  BranchApi,
+  BranchData,
+  BranchDiffOptions,
+  BranchDiffResult,
+  BranchingConfig,
+  BranchTreeNode,
+  BridgeEventType,
+  CherryPickResult,
+  CommonAncestor,
+  ForkOptions,
+  JsonPatchOperation,
+  MergeChange,
+  MergeOptions,
+  MergeResult,
+  PersistedBranches,
+  RebaseResult,
+} from '../types.js';
+import {
+  deepClone,
+  deleteIn,
+  findUnresolvablePatch,
+  generateId,
+  separateStateAndActions,
+  setIn,
+  threeWayMerge,
+} from '../utils.js';
 import { bridge } from '../bridge.js';
+import {
+  applyJsonPatch,
+  applyOperations,
+  changesToJsonPatch,
+  diffAsJsonPatch,
+  diffStates,
+  selectOperations,
+} from '../diff.js';
 
 type Branching = <
   T,
@@ -42,12 +85,15 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
   let activeBranchId = 'main';
   const listeners = new Set<() => void>();
 
-  function notify() {
+  /**
+   * Tell listeners about a branch change. Every change emits `branch:update`;
+   * fork, switch and delete emit their own event after it.
+   */
+  function notify(type?: BridgeEventType, detail: Record<string, unknown> = {}) {
     for (const listener of listeners) listener();
-    bridge.emit('branch:update', (api as any).__id, {
-      branches: Array.from(branches.values()),
-      activeBranchId,
-    });
+    const payload = { branches: Array.from(branches.values()), activeBranchId };
+    bridge.emit('branch:update', (api as any).__id, payload);
+    if (type) bridge.emit(type, (api as any).__id, { ...payload, ...detail });
   }
 
   // Get the travels instance attached by timeline middleware
@@ -62,16 +108,9 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
   // Initialize the result first so timeline middleware creates __travels
   const result = initializer(set, get, api);
 
-  /** Extract data-only state from the store (exclude functions) */
+  /** Extract data-only state from the store (exclude functions and computed values) */
   function getDataState(): Record<string, unknown> {
-    const fullState = get() as Record<string, any>;
-    const dataState: Record<string, unknown> = {};
-    for (const key in fullState) {
-      if (typeof fullState[key] !== 'function') {
-        dataState[key] = fullState[key];
-      }
-    }
-    return dataState;
+    return separateStateAndActions(get() as Record<string, any>).state;
   }
 
   // Capture initial state for main branch after timeline has initialized
@@ -110,6 +149,26 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
     branch.currentState = deepClone(getDataState());
   }
 
+  /**
+   * Rebuild a Travels instance from a branch's saved state + patches, with
+   * the store's timeline config and the branch's overrides.
+   * IMPORTANT: Travels takes the CURRENT state (at position), not the
+   * initial snapshot. This matches the travels persistence pattern:
+   *   new Travels(travels.getState(), { initialPatches, initialPosition })
+   */
+  function createBranchTravels(branch: BranchData): Travels<any, false, true> {
+    return (api as any).__createTravels(
+      deepClone(branch.currentState),
+      { patches: deepClone(branch.patches), position: branch.currentPosition },
+      branch.timeline
+    );
+  }
+
+  /** Full data state of a rebuilt branch timeline (it holds tracked paths only) */
+  function stateOf(travels: Travels<any, false, true>, base: Record<string, unknown>) {
+    return deepClone((api as any).__withUntracked(travels, base));
+  }
+
   /** Restore a branch's state into the travels instance and zustand */
   function restoreBranch(branchId: string) {
     const travels = getTravels();
@@ -118,50 +177,11 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
     const branch = branches.get(branchId);
     if (!branch) return;
 
-    // Rebuild Travels from saved state + patches.
-    // IMPORTANT: Travels constructor takes the CURRENT state (at position),
-    // not the initial snapshot. This matches the travels persistence pattern:
-    //   new Travels(travels.getState(), { initialPatches, initialPosition })
-    const newTravels = new Travels(deepClone(branch.currentState), {
-      maxHistory: 100,
-      autoArchive: true,
-      initialPatches: deepClone(branch.patches),
-      initialPosition: branch.currentPosition,
-    });
-
-    // Replace the __travels instance on the api
-    const actions = getActions();
-    (api as any).__travels = newTravels;
-
-    // Rewire the temporal API to use the new travels
-    const temporal = (api as any).temporal;
-    if (temporal) {
-      const newControls = newTravels.getControls();
-      temporal.back = (steps = 1) => newControls.back(steps);
-      temporal.forward = (steps = 1) => newControls.forward(steps);
-      temporal.go = (position: number) => newControls.go(position);
-      temporal.reset = () => newControls.reset();
-      temporal.canBack = () => newControls.canBack();
-      temporal.canForward = () => newControls.canForward();
-      Object.defineProperty(temporal, 'position', {
-        get: () => newControls.position,
-        configurable: true,
-      });
-      temporal.getHistory = () => newControls.getHistory();
-      Object.defineProperty(temporal, 'patches', {
-        get: () => newControls.patches,
-        configurable: true,
-      });
-    }
-
-    // Sync new travels state changes back to zustand
-    newTravels.subscribe((state: any) => {
-      const nextState = { ...state, ...actions };
-      (api.setState as any)(nextState, true);
-    });
+    // Swap the timeline over to the branch's history (rewires temporal)
+    (api as any).__attachTravels(createBranchTravels(branch));
 
     // Set the zustand store to the branch's saved current state
-    const nextState = { ...deepClone(branch.currentState), ...actions };
+    const nextState = { ...deepClone(branch.currentState), ...getActions() };
     (api.setState as any)(nextState, true);
   }
 
@@ -178,8 +198,112 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
     return deepClone(branch.currentState);
   }
 
+  /** Write to the live timeline as its own entry, never coalesced with user sets */
+  function writeStep(travels: Travels<any, false, true>, updater: (draft: any) => any) {
+    (api as any).__archive?.();
+    travels.setState(updater);
+    (api as any).__archive?.();
+  }
+
+  /**
+   * Record a change as a single step on a branch's timeline. The active
+   * branch goes through the live Travels instance; inactive branches are
+   * rebuilt, updated and saved back.
+   */
+  function recordOnBranch(branchId: string, updater: (draft: any) => any) {
+    if (branchId === activeBranchId) {
+      const travels = getTravels();
+      if (travels) writeStep(travels, updater);
+      return;
+    }
+
+    const branch = branches.get(branchId);
+    if (!branch) throw new Error(`Branch "${branchId}" not found`);
+
+    const travels = createBranchTravels(branch);
+    travels.setState(updater);
+
+    const controls = travels.getControls();
+    branch.patches = deepClone(controls.patches);
+    branch.currentPosition = controls.position;
+    branch.currentState = stateOf(travels, branch.currentState);
+  }
+
+  /** Make a branch active, then tell listeners and the onAfterSwitch hook */
+  function activate(branchId: string) {
+    saveActiveBranch();
+    const from = activeBranchId;
+    activeBranchId = branchId;
+    restoreBranch(branchId);
+    notify('branch:switch', { from, to: branchId });
+    cfg.onAfterSwitch?.(deepClone(getBranch(from)), deepClone(getBranch(branchId)));
+  }
+
+  function getBranch(branchId: string): BranchData {
+    const branch = branches.get(branchId);
+    if (!branch) throw new Error(`Branch "${branchId}" not found`);
+    return branch;
+  }
+
+  /** Branches forked from `branchId`, by fork point then creation time */
+  function childrenOf(branchId: string): BranchData[] {
+    return Array.from(branches.values())
+      .filter((b) => b.parentBranchId === branchId)
+      .sort((a, b) => a.forkPoint - b.forkPoint || a.createdAt - b.createdAt);
+  }
+
+  /** The branch itself, then its parent, grandparent, ... (stops at a deleted parent) */
+  function lineOf(branchId: string): BranchData[] {
+    const line: BranchData[] = [];
+    for (let b = branches.get(branchId); b; b = b.parentBranchId ? branches.get(b.parentBranchId) : undefined) {
+      line.push(b);
+    }
+    return line;
+  }
+
+  /**
+   * The nearest branch both lines go through, and the position on it where
+   * the first of them leaves it
+   */
+  function findCommonAncestor(branchIdA: string, branchIdB: string) {
+    const lineA = lineOf(branchIdA);
+    const lineB = lineOf(branchIdB);
+    const indexB = new Map(lineB.map((b, i) => [b.id, i]));
+    const i = lineA.findIndex((b) => indexB.has(b.id));
+    if (i === -1) return null;
+
+    const common = lineA[i];
+    const j = indexB.get(common.id)!;
+    // Where each line leaves the common branch: the fork point of the
+    // child it goes through, or the common branch's own position
+    const leaveA = i > 0 ? lineA[i - 1].forkPoint : common.currentPosition;
+    const leaveB = j > 0 ? lineB[j - 1].forkPoint : common.currentPosition;
+    return { branch: common, position: Math.min(leaveA, leaveB) };
+  }
+
+  /** Data state of a branch at a position of its own timeline */
+  function stateAt(branch: BranchData, position: number): Record<string, unknown> {
+    if (position === branch.currentPosition) return deepClone(branch.currentState);
+    const travels = createBranchTravels(branch);
+    travels.go(position);
+    return stateOf(travels, branch.currentState);
+  }
+
+  function toTreeNode(branch: BranchData): BranchTreeNode {
+    return {
+      id: branch.id,
+      name: branch.name,
+      forkPoint: branch.forkPoint,
+      length: branch.patches.patches.length,
+      currentPosition: branch.currentPosition,
+      active: branch.id === activeBranchId,
+      createdAt: branch.createdAt,
+      children: childrenOf(branch.id).map(toTreeNode),
+    };
+  }
+
   const branchApi: BranchApi = {
-    fork(name?: string) {
+    fork(name?: string, options: ForkOptions = {}) {
       saveActiveBranch();
 
       const id = generateId();
@@ -199,22 +323,33 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
         currentPosition: 0,
         createdAt: Date.now(),
       };
+      const timeline = { ...branches.get(activeBranchId)?.timeline, ...options.timeline };
+      if (Object.keys(timeline).length > 0) newBranch.timeline = timeline;
 
       branches.set(id, newBranch);
-      notify();
+      notify('branch:fork', { branchId: id, parentBranchId: activeBranchId });
+      cfg.onFork?.(deepClone(newBranch), deepClone(getBranch(activeBranchId)));
       return deepClone(newBranch);
     },
 
     switch(branchId: string) {
-      if (branchId === activeBranchId) return;
-      if (!branches.has(branchId)) {
-        throw new Error(`Branch "${branchId}" not found`);
+      if (branchId === activeBranchId) return true;
+      const target = getBranch(branchId);
+      if (!cfg.onBeforeSwitch) {
+        activate(branchId);
+        return true;
       }
 
       saveActiveBranch();
-      activeBranchId = branchId;
-      restoreBranch(branchId);
-      notify();
+      const verdict = cfg.onBeforeSwitch(deepClone(getBranch(activeBranchId)), deepClone(target));
+      const decide = (allowed: boolean | void) => {
+        if (allowed === false) return false;
+        // An async hook may settle after other branch changes
+        getBranch(branchId);
+        if (branchId !== activeBranchId) activate(branchId);
+        return true;
+      };
+      return verdict instanceof Promise ? verdict.then(decide) : decide(verdict);
     },
 
     list() {
@@ -229,12 +364,15 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
       return deepClone(branch);
     },
 
-    diff(branchIdA: string, branchIdB: string): BranchDiffResult {
+    diff: ((branchIdA: string, branchIdB: string, options: BranchDiffOptions = {}) => {
       saveActiveBranch();
       const stateA = getBranchCurrentState(branchIdA);
       const stateB = getBranchCurrentState(branchIdB);
-      return deepDiff(stateA, stateB);
-    },
+      const diffOptions = { arrayKey: options.arrayKey ?? cfg.arrayKey };
+      return options.format === 'json-patch'
+        ? diffAsJsonPatch(stateA, stateB, diffOptions)
+        : diffStates(stateA, stateB, diffOptions);
+    }) as BranchApi['diff'],
 
     delete(branchId: string) {
       if (branchId === 'main') {
@@ -243,8 +381,10 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
       if (branchId === activeBranchId) {
         throw new Error('Cannot delete the active branch. Switch first.');
       }
+      const branch = getBranch(branchId);
       branches.delete(branchId);
-      notify();
+      notify('branch:delete', { branchId });
+      cfg.onDelete?.(deepClone(branch));
     },
 
     rename(branchId: string, newName: string) {
@@ -254,6 +394,212 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
       notify();
     },
 
+    merge(sourceId: string, targetId: string, options?: MergeOptions): MergeResult {
+      const strategy = options?.strategy ?? 'manual';
+      if (sourceId === targetId) {
+        throw new Error('Cannot merge a branch into itself');
+      }
+
+      saveActiveBranch();
+      const source = branches.get(sourceId);
+      if (!source) throw new Error(`Branch "${sourceId}" not found`);
+      if (!branches.has(targetId)) throw new Error(`Branch "${targetId}" not found`);
+
+      // Base: the state both branches last shared. Without one (a parent on
+      // the way was deleted) the source's fork snapshot stands in
+      const ancestor = findCommonAncestor(sourceId, targetId);
+      const base = ancestor ? stateAt(ancestor.branch, ancestor.position) : source.snapshot;
+      const { changes, conflicts } = threeWayMerge(
+        base,
+        getBranchCurrentState(targetId),
+        getBranchCurrentState(sourceId)
+      );
+
+      const applied: MergeChange[] = [...changes];
+      if (strategy === 'theirs') {
+        for (const conflict of conflicts) {
+          applied.push(
+            conflict.theirs === undefined
+              ? { op: 'remove', path: conflict.path }
+              : { op: 'set', path: conflict.path, value: conflict.theirs }
+          );
+        }
+      }
+
+      if (applied.length > 0) {
+        recordOnBranch(targetId, (draft) => {
+          for (const change of applied) {
+            if (change.op === 'set') {
+              setIn(draft, change.path, deepClone(change.value));
+            } else {
+              deleteIn(draft, change.path);
+            }
+          }
+        });
+        saveActiveBranch();
+        notify();
+      }
+
+      return deepClone({ strategy, applied, conflicts });
+    },
+
+    cherryPick(sourceBranchId: string, positions: number[]): CherryPickResult {
+      if (sourceBranchId === activeBranchId) {
+        throw new Error('Cannot cherry-pick from the active branch');
+      }
+      const source = branches.get(sourceBranchId);
+      if (!source) throw new Error(`Branch "${sourceBranchId}" not found`);
+
+      const steps = source.patches.patches;
+      for (const position of positions) {
+        if (!Number.isInteger(position) || position < 1 || position > steps.length) {
+          throw new Error(
+            `Position ${position} is out of range for branch "${sourceBranchId}" (1-${steps.length})`
+          );
+        }
+      }
+
+      const travels = getTravels();
+      if (!travels) return { picked: [], failed: [] };
+
+      const result: CherryPickResult = { picked: [], failed: [] };
+      for (const position of positions) {
+        const stepPatches = steps[position - 1];
+        const missing = findUnresolvablePatch(travels.getState(), stepPatches);
+        if (missing) {
+          result.failed.push({ position, path: missing, patches: deepClone(stepPatches) });
+          continue;
+        }
+        // Whole-state patches (path []) return the new state instead of changing the draft
+        writeStep(travels, (draft: any) => apply(draft, stepPatches));
+        result.picked.push(position);
+      }
+
+      if (result.picked.length > 0) {
+        saveActiveBranch();
+        notify();
+      }
+      return result;
+    },
+
+    tree() {
+      saveActiveBranch();
+      return Array.from(branches.values())
+        .filter((b) => b.parentBranchId === null || !branches.has(b.parentBranchId))
+        .sort((a, b) => Number(b.id === 'main') - Number(a.id === 'main') || a.createdAt - b.createdAt)
+        .map(toTreeNode);
+    },
+
+    ancestors(branchId: string) {
+      getBranch(branchId);
+      saveActiveBranch();
+      return lineOf(branchId).slice(1).map((b) => deepClone(b));
+    },
+
+    commonAncestor(branchIdA: string, branchIdB: string): CommonAncestor | null {
+      getBranch(branchIdA);
+      getBranch(branchIdB);
+      saveActiveBranch();
+
+      const ancestor = findCommonAncestor(branchIdA, branchIdB);
+      return ancestor && { branch: deepClone(ancestor.branch), position: ancestor.position };
+    },
+
+    descendants(branchId: string) {
+      getBranch(branchId);
+      saveActiveBranch();
+      const result: BranchData[] = [];
+      const visit = (id: string) => {
+        for (const child of childrenOf(id)) {
+          result.push(deepClone(child));
+          visit(child.id);
+        }
+      };
+      visit(branchId);
+      return result;
+    },
+
+    rebase(branchId: string, ontoBranchId: string): RebaseResult {
+      const branch = getBranch(branchId);
+      getBranch(ontoBranchId);
+      if (ontoBranchId === branchId || lineOf(ontoBranchId).some((b) => b.id === branchId)) {
+        throw new Error(`Cannot rebase branch "${branchId}" onto itself or a branch forked from it`);
+      }
+
+      saveActiveBranch();
+      const base = getBranchCurrentState(ontoBranchId);
+      const forkPoint =
+        ontoBranchId === activeBranchId
+          ? getTravels()?.getControls().position ?? 0
+          : branches.get(ontoBranchId)!.currentPosition;
+
+      // Replay every step, including redo steps past the current position
+      const travels = createBranchTravels({
+        ...branch,
+        currentState: base,
+        patches: { patches: [], inversePatches: [] },
+        currentPosition: 0,
+      });
+      const result: RebaseResult = { forkPoint, replayed: [], failed: [] };
+      let position = 0;
+
+      branch.patches.patches.forEach((stepPatches, i) => {
+        const missing = findUnresolvablePatch(travels.getState(), stepPatches);
+        if (missing) {
+          result.failed.push({ position: i + 1, path: missing, patches: deepClone(stepPatches) });
+        } else {
+          travels.setState((draft: any) => apply(draft, stepPatches));
+          result.replayed.push(i + 1);
+        }
+        if (i + 1 === branch.currentPosition) position = travels.getControls().position;
+      });
+      travels.go(position);
+
+      const controls = travels.getControls();
+      branch.parentBranchId = ontoBranchId;
+      branch.forkPoint = forkPoint;
+      branch.snapshot = deepClone(base);
+      branch.patches = deepClone(controls.patches);
+      branch.currentPosition = controls.position;
+      branch.currentState = stateOf(travels, base);
+
+      if (branchId === activeBranchId) restoreBranch(branchId);
+      notify();
+      return deepClone(result);
+    },
+
+    applyDiff(
+      diff: BranchDiffResult | JsonPatchOperation[],
+      targetBranchId: string,
+      options: ApplyDiffOptions = {}
+    ): JsonPatchOperation[] {
+      getBranch(targetBranchId);
+      saveActiveBranch();
+
+      const ops = !Array.isArray(diff)
+        ? changesToJsonPatch(diff, options.paths)
+        : options.paths
+          ? selectOperations(diff, options.paths)
+          : diff;
+      if (ops.length === 0) return [];
+
+      // Try the operations on a copy first so a misfit changes nothing
+      try {
+        applyJsonPatch(getBranchCurrentState(targetBranchId), ops);
+      } catch (e) {
+        throw new Error(
+          `Cannot apply diff to branch "${targetBranchId}": ${e instanceof Error ? e.message : e}`
+        );
+      }
+
+      recordOnBranch(targetBranchId, (draft) => {
+        applyOperations(draft, ops);
+      });
+      saveActiveBranch();
+      notify();
+      return deepClone(ops);
+    },
+
     subscribe(listener: () => void) {
       listeners.add(listener);
       return () => { listeners.delete(listener); };
@@ -261,6 +607,35 @@ const branchingImpl: BranchingImpl = (initializer, config) => (set, get, api) =>
   };
 
   (api as any).branch = branchApi;
+  // Expose for the persist layer to save/rehydrate branches
+  (api as any).__branches = {
+    activeId: () => activeBranchId,
+    has: (branchId: string) => branches.has(branchId),
+    /** Switch without consulting onBeforeSwitch (for internal jumps) */
+    activate(branchId: string) {
+      getBranch(branchId);
+      if (branchId !== activeBranchId) activate(branchId);
+    },
+    serialize(): PersistedBranches {
+      saveActiveBranch();
+      return {
+        activeBranchId,
+        branches: Array.from(branches.values()).map((b) => deepClone(b)),
+      };
+    },
+    hydrate(data: PersistedBranches) {
+      if (!data.branches.some((b) => b.id === data.activeBranchId)) {
+        throw new Error(`Branch "${data.activeBranchId}" not found`);
+      }
+      branches.clear();
+      for (const branch of data.branches) {
+        branches.set(branch.id, deepClone(branch));
+      }
+      activeBranchId = data.activeBranchId;
+      restoreBranch(activeBranchId);
+      notify();
+    },
+  };
 
   return result;
 };
@@ -274,12 +649,24 @@ function createNoopBranch(): BranchApi {
   };
   return {
     fork: () => noop,
-    switch: () => {},
+    switch: () => true,
     list: () => [noop],
     active: () => noop,
-    diff: () => ({ added: [], removed: [], changed: [] }),
+    diff: ((_a: string, _b: string, options?: BranchDiffOptions) =>
+      options?.format === 'json-patch' ? [] : { added: [], removed: [], changed: [], moved: [] }) as BranchApi['diff'],
     delete: () => {},
     rename: () => {},
+    merge: () => ({ strategy: 'manual', applied: [], conflicts: [] }),
+    cherryPick: () => ({ picked: [], failed: [] }),
+    rebase: () => ({ forkPoint: 0, replayed: [], failed: [] }),
+    applyDiff: () => [],
+    tree: () => [{
+      id: 'main', name: 'main', forkPoint: 0, length: 0, currentPosition: 0,
+      active: true, createdAt: noop.createdAt, children: [],
+    }],
+    ancestors: () => [],
+    commonAncestor: () => ({ branch: noop, position: 0 }),
+    descendants: () => [],
     subscribe: () => () => {},
   };
 }
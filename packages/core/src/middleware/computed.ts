@@ -0,0 +1,102 @@
+/**
+ * Computed middleware — derives values from the data state and keeps them
+ * in the store next to it, without ever recording them.
+ *
+ * Every state the store produces (set, undo/redo, branch switch, imports
+ * through api.setState) is completed with the computed values and marked
+ * with COMPUTED_KEYS, so separateStateAndActions() — and with it Travels,
+ * branches, snapshots and the inspector — leave them out.
+ *
+ * Each computed function is memoized on the top-level data keys it read
+ * last time; it only reruns when one of those values changes.
+ */
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type { ComputedConfig } from '../types.js';
+import { COMPUTED_KEYS, separateStateAndActions } from '../utils.js';
+
+type Computed = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, Mps, Mcs>,
+  config?: ComputedConfig
+) => StateCreator<T, Mps, Mcs>;
+
+type ComputedImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  config?: ComputedConfig
+) => StateCreator<T, [], []>;
+
+interface Memo {
+  deps: Map<string, unknown>;
+  value: unknown;
+}
+
+const computedImpl: ComputedImpl = (initializer, config) => (set, get, api) => {
+  const getters = config ?? {};
+  const keys = Object.keys(getters);
+
+  if (keys.length === 0) return initializer(set, get, api);
+
+  const memos = new Map<string, Memo>();
+
+  /** Run a computed function, recording which data keys it reads */
+  function evaluate(key: string, data: Record<string, unknown>): unknown {
+    const memo = memos.get(key);
+    if (memo && Array.from(memo.deps).every(([dep, value]) => data[dep] === value)) {
+      return memo.value;
+    }
+
+    const deps = new Map<string, unknown>();
+    const tracked = new Proxy(data, {
+      get(target, prop, receiver) {
+        if (typeof prop === 'string') deps.set(prop, target[prop]);
+        return Reflect.get(target, prop, receiver);
+      },
+      // Enumerating (spread, Object.keys) depends on every key
+      ownKeys(target) {
+        for (const dep of Object.keys(target)) deps.set(dep, target[dep]);
+        return Reflect.ownKeys(target);
+      },
+    });
+    const value = getters[key](tracked);
+    memos.set(key, { deps, value });
+    return value;
+  }
+
+  /** Complete `state` with fresh computed values */
+  function withComputed<S>(state: S): S {
+    const base = state as Record<string, unknown>;
+    const { state: data } = separateStateAndActions(base);
+
+    const next: Record<string, unknown> = { ...base };
+    for (const key of keys) {
+      next[key] = evaluate(key, data);
+    }
+    Object.defineProperty(next, COMPUTED_KEYS, { value: keys, enumerable: false });
+    return next as S;
+  }
+
+  function resolve(partial: any, replace?: boolean) {
+    const prev = get() as Record<string, unknown>;
+    const nextPartial = typeof partial === 'function' ? partial(prev) : partial;
+    return withComputed(replace ? nextPartial : { ...prev, ...nextPartial });
+  }
+
+  const computedSet: typeof set = (partial: any, replace?: any) => {
+    (set as any)(resolve(partial, replace), true);
+  };
+
+  // Direct api.setState calls (branch restore, mock, snapshot import) too
+  const setState = api.setState;
+  api.setState = ((partial: any, replace?: any) => {
+    (setState as any)(resolve(partial, replace), true);
+  }) as typeof api.setState;
+
+  (api as any).__computedKeys = keys;
+
+  return withComputed(initializer(computedSet, get, api));
+};
+
+export const computed = computedImpl as Computed;
@@ -0,0 +1,185 @@
+/**
+ * DevTools middleware — connects a store to the Redux DevTools extension
+ * and keeps its history in sync with our Travels timeline.
+ *
+ * Each inspector log entry is sent as a DevTools action tagged with the
+ * timeline position it produced, so jumping in the extension goes through
+ * temporal.go() instead of overwriting state behind the timeline's back.
+ *
+ *   JUMP_TO_ACTION / JUMP_TO_STATE → temporal.go(position)
+ *   RESET / ROLLBACK               → temporal.reset()
+ *   COMMIT                         → current state becomes the timeline start
+ *   IMPORT_STATE                   → rebuild the history (on a new branch)
+ *
+ * States are sent in the serializer's tagged encoding so Dates, Maps and
+ * other non-JSON values survive an export/import through the extension.
+ */
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type { ActionLogEntry, DevtoolsConfig } from '../types.js';
+import { separateStateAndActions } from '../utils.js';
+import { serializer } from '../serializer.js';
+
+/** The subset of the extension connection we rely on */
+interface DevtoolsConnection {
+  init: (state: unknown) => void;
+  send: (action: unknown, state: unknown) => void;
+  subscribe: (listener: (message: any) => void) => (() => void) | void;
+}
+
+interface DevtoolsExtension {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+}
+
+type Devtools = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, Mps, Mcs>,
+  config?: DevtoolsConfig
+) => StateCreator<T, Mps, Mcs>;
+
+type DevtoolsImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  config?: DevtoolsConfig
+) => StateCreator<T, [], []>;
+
+function getExtension(): DevtoolsExtension | undefined {
+  return (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__;
+}
+
+const devtoolsImpl: DevtoolsImpl = (initializer, config) => (set, get, api) => {
+  const extension = getExtension();
+  if (!extension) return initializer(set, get, api);
+
+  const connection = extension.connect({ name: config?.name ?? (api as any).__name });
+
+  // DevTools action id → timeline position (id 0 is the @@INIT state)
+  let positions: number[] = [];
+  // Changes we make on behalf of DevTools are not sent back to it
+  let jumping = false;
+  let activeBranchId: string | null = null;
+
+  function temporal() {
+    return (api as any).temporal;
+  }
+
+  function dataState(): Record<string, unknown> {
+    return separateStateAndActions(get() as Record<string, any>).state;
+  }
+
+  /** What DevTools receives for a state */
+  function encode(state: Record<string, unknown>): unknown {
+    return serializer.encode(state);
+  }
+
+  function jump(fn: () => void) {
+    jumping = true;
+    try {
+      fn();
+    } finally {
+      jumping = false;
+    }
+  }
+
+  /** Start a new DevTools history at the current state */
+  function reinit(state: Record<string, unknown> = dataState()) {
+    positions = [temporal()?.position ?? 0];
+    connection.init(encode(state));
+  }
+
+  /** Make the current state the start of a fresh timeline */
+  function commit() {
+    const state = dataState();
+    const createTravels = (api as any).__createTravels;
+    if (createTravels) {
+      jump(() => (api as any).__attachTravels(createTravels(state)));
+    }
+    reinit(state);
+  }
+
+  /**
+   * Rebuild the timeline from an exported DevTools session. With branching
+   * enabled the session lands on its own branch instead of replacing the
+   * current history.
+   */
+  function importState(lifted: any) {
+    const states: Record<string, unknown>[] = (lifted?.computedStates ?? []).map(
+      (c: any) => serializer.decode(c.state) as Record<string, unknown>
+    );
+    const createTravels = (api as any).__createTravels;
+    if (states.length === 0 || !createTravels) return;
+
+    jump(() => {
+      if ((api as any).__branches) {
+        const branch = (api as any).branch.fork('devtools-import');
+        (api as any).__branches.activate(branch.id);
+      }
+
+      (api as any).__attachTravels(createTravels(states[0]));
+      const actions = (api as any).__actions ?? {};
+      (api.setState as any)({ ...states[0], ...actions }, true);
+
+      // One timeline step per imported action
+      for (const state of states.slice(1)) {
+        (api as any).__archive?.();
+        (api as any).__travels.setState(state);
+      }
+      (api as any).__archive?.();
+
+      temporal().go(lifted.currentStateIndex ?? states.length - 1);
+    });
+
+    positions = states.map((_, i) => i);
+    connection.send(null, lifted);
+  }
+
+  const result = initializer(set, get, api);
+
+  connection.init(encode(separateStateAndActions(result as Record<string, any>).state));
+  positions = [0];
+  activeBranchId = (api as any).__branches?.activeId() ?? null;
+
+  (api as any).inspector?.subscribe((entry: ActionLogEntry) => {
+    if (jumping) return;
+    positions.push(entry.position ?? temporal()?.position ?? 0);
+    const type = entry.phase ? `${entry.actionName} (${entry.phase})` : entry.actionName;
+    connection.send({ type }, encode(dataState()));
+  });
+
+  // A branch switch swaps the whole history, so DevTools starts over
+  (api as any).branch?.subscribe(() => {
+    const id = (api as any).__branches?.activeId() ?? null;
+    if (id === activeBranchId) return;
+    activeBranchId = id;
+    if (!jumping) reinit();
+  });
+
+  connection.subscribe((message) => {
+    if (message?.type !== 'DISPATCH') return;
+
+    switch (message.payload?.type) {
+      case 'JUMP_TO_ACTION':
+      case 'JUMP_TO_STATE': {
+        const position = positions[message.payload.actionId ?? message.payload.index];
+        if (position !== undefined) jump(() => temporal()?.go(position));
+        return;
+      }
+      case 'RESET':
+      case 'ROLLBACK':
+        jump(() => temporal()?.reset());
+        reinit();
+        return;
+      case 'COMMIT':
+        commit();
+        return;
+      case 'IMPORT_STATE':
+        importState(message.payload.nextLiftedState);
+        return;
+    }
+  });
+
+  return result;
+};
+
+export const devtools = devtoolsImpl as Devtools;
@@ -1,90 +1,410 @@
 /**
  * Inspector middleware — logs every state change with action name and patches.
  * Uses mutative to generate RFC 6902 patches for the log.
+ *
+ * Changes made inside a store action are named `store/action` and carry the
+ * call's arguments and call stack (provided by the tracking layer).
+ *
+ * The log is bounded by count, serialized size and age, can be kept across
+ * reloads, and can be exported as a session file (see InspectorSession).
+ * query() searches it through an index by action name and patch path.
+ *
+ * Each set() entry is profiled: how long the set() took (including the
+ * synchronous subscriber notifications), how many subscribers it notified
+ * and the serialized size of its patches. stats() aggregates them by action.
  */
-import { create as mutativeCreate, type Patches } from 'mutative';
+import { apply, type Patches } from 'mutative';
 import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
-import type { ActionLogEntry, InspectorApi } from '../types.js';
-import { extractActionName, generateId } from '../utils.js';
+import type {
+  ActionLogEntry,
+  InspectorApi,
+  ActionProfile,
+  InspectorConfig,
+  InspectorSession,
+  InspectorStats,
+  InspectorStorage,
+} from '../types.js';
+import {
+  deepClone,
+  diffPatches,
+  extractActionName,
+  generateId,
+  separateStateAndActions,
+} from '../utils.js';
 import { bridge } from '../bridge.js';
+import { getActiveTransaction } from '../transaction.js';
+import { getCallStack, type ActionCall } from '../asyncAction.js';
+import { globalTimeline } from '../globalTimeline.js';
+import { serializer } from '../serializer.js';
+import { LogIndex } from '../logIndex.js';
 
-const MAX_LOG_ENTRIES = 200;
+const DEFAULT_MAX_ENTRIES = 200;
+const SESSION_FORMAT = 'state-sdk/inspector-session';
+const STORAGE_PREFIX = 'state-sdk:inspector:';
+
+const encoder = new TextEncoder();
 
 type Inspector = <
   T,
   Mps extends [StoreMutatorIdentifier, unknown][] = [],
   Mcs extends [StoreMutatorIdentifier, unknown][] = [],
 >(
-  initializer: StateCreator<T, Mps, Mcs>
+  initializer: StateCreator<T, Mps, Mcs>,
+  config?: InspectorConfig
 ) => StateCreator<T, Mps, Mcs>;
 
 type InspectorImpl = <T>(
-  initializer: StateCreator<T, [], []>
+  initializer: StateCreator<T, [], []>,
+  config?: InspectorConfig
 ) => StateCreator<T, [], []>;
 
-const inspectorImpl: InspectorImpl = (initializer) => (set, get, api) => {
+/** Serialized size of a value in bytes (0 when it cannot be serialized) */
+function byteSize(value: unknown): number {
+  try {
+    return encoder.encode(serializer.stringify(value)).length;
+  } catch {
+    return 0;
+  }
+}
+
+/** Aggregate the profiling data of set() entries, slowest actions first */
+function computeStats(entries: readonly ActionLogEntry[]): InspectorStats {
+  const byName = new Map<string, ActionProfile>();
+  const stats: InspectorStats = { count: 0, totalDuration: 0, notifications: 0, patchBytes: 0, actions: [] };
+
+  for (const entry of entries) {
+    if (entry.duration === undefined) continue;
+    let profile = byName.get(entry.actionName);
+    if (!profile) {
+      profile = {
+        actionName: entry.actionName,
+        count: 0,
+        totalDuration: 0,
+        avgDuration: 0,
+        maxDuration: 0,
+        notifications: 0,
+        patchCount: 0,
+        patchBytes: 0,
+      };
+      byName.set(entry.actionName, profile);
+    }
+    profile.count += 1;
+    profile.totalDuration += entry.duration;
+    profile.maxDuration = Math.max(profile.maxDuration, entry.duration);
+    profile.notifications += entry.subscribers ?? 0;
+    profile.patchCount += entry.patches.length;
+    profile.patchBytes += entry.patchBytes ?? 0;
+
+    stats.count += 1;
+    stats.totalDuration += entry.duration;
+    stats.notifications += entry.subscribers ?? 0;
+    stats.patchBytes += entry.patchBytes ?? 0;
+  }
+
+  for (const profile of byName.values()) {
+    profile.avgDuration = profile.totalDuration / profile.count;
+  }
+  stats.actions = [...byName.values()].sort((a, b) => b.totalDuration - a.totalDuration);
+  return stats;
+}
+
+/** Read and check a session file */
+function parseSession(session: InspectorSession | string): InspectorSession {
+  const data = typeof session === 'string' ? serializer.parse<InspectorSession>(session) : session;
+  if (data?.format !== SESSION_FORMAT) {
+    throw new Error('Not an inspector session');
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported inspector session version: ${data.version}`);
+  }
+  return data;
+}
+
+function defaultStorage(): InspectorStorage | null {
+  return typeof sessionStorage !== 'undefined' ? sessionStorage : null;
+}
+
+const inspectorImpl: InspectorImpl = (initializer, config) => (set, get, api) => {
+  const cfg = { maxEntries: DEFAULT_MAX_ENTRIES, persist: false, ...config };
+  const storage = cfg.persist ? (cfg.storage ?? defaultStorage()) : null;
+
   const log: ActionLogEntry[] = [];
+  // Parallel to `log`: the data state before each entry (states are
+  // immutable, so these share structure) and each entry's size in bytes
+  const prevStates: Record<string, unknown>[] = [];
+  const sizes: number[] = [];
+  let totalBytes = 0;
+  const index = new LogIndex();
   const listeners = new Set<(entry: ActionLogEntry) => void>();
 
-  const wrappedSet: typeof set = (partial: any, replace?: any) => {
-    const actionName = extractActionName(partial);
-    const prevState = get();
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
 
-    (set as any)(partial, replace);
+  function storageKey(): string {
+    return STORAGE_PREFIX + (api as any).__name;
+  }
 
-    const nextState = get();
+  function dataState(): Record<string, unknown> {
+    return separateStateAndActions(get() as Record<string, unknown>).state;
+  }
 
-    // Generate patches via mutative
-    let patches: Patches = [];
-    try {
-      const [, p] = mutativeCreate(
-        prevState as object,
-        (draft: any) => {
-          const next = nextState as Record<string, any>;
-          for (const key of Object.keys(next)) {
-            if (typeof next[key] !== 'function') {
-              draft[key] = next[key];
-            }
-          }
-        },
-        { enablePatches: true }
-      ) as [unknown, Patches, Patches];
-      patches = p;
-    } catch {
-      // Fallback: no patches if mutative fails
+  function push(entry: ActionLogEntry, prevState: Record<string, unknown>) {
+    const size = cfg.maxBytes !== undefined ? byteSize(entry) : 0;
+    log.push(entry);
+    index.add(entry);
+    prevStates.push(prevState);
+    sizes.push(size);
+    totalBytes += size;
+  }
+
+  /** Drop the oldest entries until the log is within its limits */
+  function prune() {
+    const now = Date.now();
+    while (
+      log.length > 0 &&
+      (log.length > cfg.maxEntries ||
+        (cfg.maxBytes !== undefined && totalBytes > cfg.maxBytes) ||
+        (cfg.maxAge !== undefined && now - log[0].timestamp > cfg.maxAge))
+    ) {
+      index.removeOldest(log.shift()!);
+      prevStates.shift();
+      totalBytes -= sizes.shift()!;
+    }
+  }
+
+  function reset() {
+    log.length = 0;
+    index.clear();
+    prevStates.length = 0;
+    sizes.length = 0;
+    totalBytes = 0;
+  }
+
+  function scheduleSave() {
+    if (!storage || saveTimer !== null) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      try {
+        storage.setItem(storageKey(), serializer.stringify(exportSession()));
+      } catch {
+        // Quota exceeded or unserializable arguments: keep the log in memory only
+      }
+    }, 0);
+  }
+
+  function exportSession(): InspectorSession {
+    prune();
+    return {
+      format: SESSION_FORMAT,
+      version: 1,
+      exportedAt: Date.now(),
+      store: {
+        id: (api as any).__id,
+        name: (api as any).__name,
+        version: (api as any).__version ?? 1,
+      },
+      initialState: deepClone(prevStates[0] ?? dataState()),
+      entries: [...log],
+    };
+  }
+
+  /** Replace the log with a session's entries */
+  function load(session: InspectorSession) {
+    reset();
+    // Rebuild the state before each entry; if a step does not apply (the
+    // store was undone in between), later entries keep the last good state
+    let state = session.initialState;
+    for (const entry of session.entries) {
+      push(entry, state);
+      try {
+        state = apply(state, entry.patches);
+      } catch {
+        // keep `state`
+      }
     }
+    prune();
+  }
+
+  type EntryDetails = Pick<
+    ActionLogEntry,
+    'args' | 'callStack' | 'correlationId' | 'phase' | 'error' | 'duration' | 'subscribers'
+  >;
+  type Measurement = Required<Pick<ActionLogEntry, 'duration' | 'subscribers'>>;
+
+  // Store subscriptions made once the store is built (components and other
+  // app listeners); see the api.subscribe wrapper below
+  let subscriberCount = 0;
+
+  /** Apply a set() and measure its duration and the subscribers it notified */
+  function measuredSet(partial: any, replace: any): Measurement {
+    const before = get();
+    const start = performance.now();
+    (set as any)(partial, replace);
+    return {
+      duration: performance.now() - start,
+      subscribers: get() !== before ? subscriberCount : 0,
+    };
+  }
+
+  /** Details of the action call a change was made in */
+  function callDetails(call: ActionCall | null): EntryDetails {
+    if (!call) return {};
+    return { args: call.args, callStack: getCallStack(call), correlationId: call.id };
+  }
+
+  function record(
+    actionName: string,
+    patches: Patches,
+    prevState: Record<string, unknown>,
+    details: EntryDetails = {}
+  ) {
+    // Changes made while scrubbing the global timeline are not new history
+    if (globalTimeline.isScrubbing) return;
 
     const entry: ActionLogEntry = {
       id: generateId(),
       timestamp: Date.now(),
       actionName,
       patches,
+      position: (api as any).temporal?.position,
     };
-
-    log.push(entry);
-    if (log.length > MAX_LOG_ENTRIES) {
-      log.shift();
+    const branchId: string | undefined = (api as any).__branches?.activeId();
+    if (branchId !== undefined) entry.branchId = branchId;
+    if (details.duration !== undefined) entry.patchBytes = byteSize(patches);
+    for (const [key, value] of Object.entries(details)) {
+      if (value !== undefined) (entry as any)[key] = value;
     }
 
+    push(entry, prevState);
+    prune();
+    scheduleSave();
+
     for (const listener of listeners) {
       listener(entry);
     }
 
     bridge.emit('action:log', (api as any).__id, entry);
+  }
+
+  // State before the first set() of the running transaction, if any, and
+  // the time and notifications of its set() calls so far
+  let txPrevState: Record<string, unknown> | null = null;
+  let txMeasurement: Measurement = { duration: 0, subscribers: 0 };
+
+  const wrappedSet: typeof set = (partial: any, replace?: any) => {
+    // Inside transaction(): log one entry for the whole transaction on commit
+    const tx = getActiveTransaction();
+    if (tx) {
+      if (txPrevState === null) {
+        txPrevState = dataState();
+        txMeasurement = { duration: 0, subscribers: 0 };
+        tx.join({
+          commit: () => {
+            const prevState = txPrevState!;
+            txPrevState = null;
+            const patches = diffPatches(prevState, get());
+            if (patches.length > 0) {
+              record(tx.name, patches, prevState, {
+                ...callDetails((api as any).__currentCall?.() ?? null),
+                ...txMeasurement,
+              });
+            }
+          },
+          rollback: () => {
+            txPrevState = null;
+          },
+        });
+      }
+      const { duration, subscribers } = measuredSet(partial, replace);
+      txMeasurement.duration += duration;
+      txMeasurement.subscribers += subscribers;
+      return;
+    }
+
+    // Name by the action call when there is one, else by the original set()
+    const call: ActionCall | null = (api as any).__currentCall?.() ?? null;
+    const actionName =
+      call?.actionName ?? (api as any).__setName?.() ?? extractActionName(partial);
+    const prevState = dataState();
+
+    const measurement = measuredSet(partial, replace);
+
+    record(actionName, diffPatches(prevState, get()), prevState, {
+      ...callDetails(call),
+      ...measurement,
+    });
   };
 
   const inspectorApi: InspectorApi = {
-    getActionLog: () => [...log],
-    clear: () => { log.length = 0; },
+    getActionLog: () => {
+      prune();
+      return [...log];
+    },
+    clear: () => {
+      reset();
+      scheduleSave();
+    },
     subscribe(listener: (entry: ActionLogEntry) => void) {
       listeners.add(listener);
       return () => { listeners.delete(listener); };
     },
+    query(filter) {
+      if (filter.storeIds && !filter.storeIds.includes((api as any).__id)) return [];
+      prune();
+      return index.query(filter, log);
+    },
+    stats: (filter) => computeStats(filter ? inspectorApi.query(filter) : inspectorApi.getActionLog()),
+    export: exportSession,
+    import(session) {
+      const data = parseSession(session);
+      const name = (api as any).__name;
+      if (data.store.name !== name) {
+        throw new Error(`Inspector session was recorded on store "${data.store.name}", not "${name}"`);
+      }
+      load(data);
+      scheduleSave();
+    },
   };
 
   (api as any).inspector = inspectorApi;
 
-  return initializer(wrappedSet as any, get, api);
+  // Async action start/success/error entries, logged by the tracking layer
+  (api as any).__logLifecycle = (
+    call: ActionCall,
+    phase: NonNullable<ActionLogEntry['phase']>,
+    error?: string
+  ) => {
+    record(call.actionName, [], dataState(), { ...callDetails(call), phase, error });
+  };
+
+  const initialState = initializer(wrappedSet as any, get, api);
+
+  // Count subscriptions only from here on, so listeners the inner
+  // middleware registered (e.g. persist's autosave) are not counted
+  const subscribe = api.subscribe;
+  api.subscribe = (listener) => {
+    const unsubscribe = subscribe(listener);
+    let active = true;
+    subscriberCount += 1;
+    return () => {
+      if (active) {
+        active = false;
+        subscriberCount -= 1;
+      }
+      unsubscribe();
+    };
+  };
+
+  // Pick up the log kept before the page was reloaded
+  if (storage) {
+    try {
+      const saved = storage.getItem(storageKey());
+      if (saved !== null) load(parseSession(saved));
+    } catch {
+      storage.removeItem(storageKey());
+    }
+  }
+
+  return initialState;
 };
 
 export const inspector = inspectorImpl as Inspector;
@@ -1,14 +1,19 @@
-import type { EnhancedStoreApi } from '../types.js';
+import type { EnhancedStoreApi, StoreRegistryEntry } from '../types.js';
 import { registry } from '../registry.js';
-import { deepClone } from '../utils.js';
+import { deepClone, separateStateAndActions } from '../utils.js';
 import { bridge } from '../bridge.js';
+import { StateValidationError, assertValidState, validateState } from '../schema.js';
+import { migrateState } from '../migrate.js';
 
 export const mock = {
   /**
    * Inject mock data into a specific store, merging with current state.
+   * Throws a StateValidationError if the result fails the store schema.
    */
   inject<T>(store: EnhancedStoreApi<T>, data: Partial<T>): void {
-    const current = store.getState();
+    const current = store.getState() as Record<string, unknown>;
+    // Validate data only: spreading the state would turn computed values into data
+    assertValidState(store, { ...separateStateAndActions(current).state, ...data });
     store.setState({ ...current, ...data } as T, true);
     bridge.emit('state:update', store.__id, store.getState());
   },
@@ -17,22 +22,39 @@ export const mock = {
    * Replace entire store state with mock data.
    */
   replace<T>(store: EnhancedStoreApi<T>, data: T): void {
+    assertValidState(store, data as Record<string, unknown>);
     store.setState(data, true);
     bridge.emit('state:update', store.__id, store.getState());
   },
 
   /**
-   * Inject mock data into multiple stores by name.
+   * Inject mock data into multiple stores by name. Data written by an older
+   * store version (per `storeVersions`, default 1) is migrated first, then
+   * all stores are validated; if any fails nothing is injected.
    */
-  injectAll(data: Record<string, Record<string, unknown>>): void {
-    for (const [name, storeData] of Object.entries(data)) {
+  injectAll(
+    data: Record<string, Record<string, unknown>>,
+    storeVersions: Record<string, number> = {}
+  ): void {
+    const updates: Array<{ entry: StoreRegistryEntry; next: Record<string, unknown> }> = [];
+    for (const [name, raw] of Object.entries(data)) {
       const entry = registry.getByName(name);
       if (entry) {
-        const current = entry.store.getState();
-        entry.store.setState({ ...current, ...storeData }, true);
-        bridge.emit('state:update', entry.id, entry.store.getState());
+        const storeData = migrateState(entry.store, raw, storeVersions[name]);
+        updates.push({ entry, next: storeData });
       }
     }
+
+    const issues = updates.flatMap(({ entry, next }) => {
+      const current = entry.store.getState() as Record<string, unknown>;
+      return validateState(entry.store, { ...separateStateAndActions(current).state, ...next });
+    });
+    if (issues.length > 0) throw new StateValidationError(issues);
+
+    for (const { entry, next } of updates) {
+      entry.store.setState({ ...(entry.store.getState() as object), ...next }, true);
+      bridge.emit('state:update', entry.id, entry.store.getState());
+    }
   },
 
   /**
@@ -0,0 +1,172 @@
+/**
+ * Persist middleware — saves branches and timeline history to a pluggable
+ * storage adapter and rehydrates them on startup, so forks and undo
+ * history survive page reloads.
+ *
+ * Sits on top of the branching layer; reads __travels / __branches
+ * internals to collect state and swaps them back in on rehydrate.
+ * Rehydration is asynchronous (adapters may be async), so changes made
+ * before it finishes are replaced by the persisted data.
+ */
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type { PersistApi, PersistConfig, PersistedState } from '../types.js';
+import { createLocalStorage, createMemoryStorage } from '../storage.js';
+import { deepClone, separateStateAndActions } from '../utils.js';
+
+type Persist = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, Mps, Mcs>,
+  config?: PersistConfig
+) => StateCreator<T, Mps, Mcs>;
+
+type PersistImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  config?: PersistConfig
+) => StateCreator<T, [], []>;
+
+const persistImpl: PersistImpl = (initializer, config) => (set, get, api) => {
+  const cfg = { enabled: true, version: 1, debounceMs: 0, ...config };
+
+  if (!cfg.enabled) {
+    (api as any).persist = createNoopPersist();
+    return initializer(set, get, api);
+  }
+
+  const storage =
+    cfg.storage ??
+    (typeof localStorage !== 'undefined' ? createLocalStorage() : createMemoryStorage());
+
+  let hydrated = false;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Store name is attached after creation, so resolve the key lazily
+  function storageKey(): string {
+    return cfg.key ?? (api as any).__name;
+  }
+
+  /** Collect everything needed to rebuild branches and timeline */
+  function collect(): PersistedState {
+    const travels = (api as any).__travels;
+    const branching = (api as any).__branches?.serialize() ?? null;
+    const controls = travels?.getControls();
+
+    return {
+      version: cfg.version,
+      // The Travels state holds tracked paths only, so save the store's data
+      state: deepClone(separateStateAndActions(get() as Record<string, any>).state),
+      timeline: travels
+        ? { patches: deepClone(controls.patches), position: controls.position }
+        : null,
+      branching: branching && branching.branches.length > 0 ? branching : null,
+    };
+  }
+
+  async function save() {
+    if (saveTimer !== null) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    await storage.setItem(storageKey(), collect());
+  }
+
+  /** Report a failure nobody is waiting on */
+  function reportError(error: unknown, operation: 'save' | 'load') {
+    if (cfg.onError) cfg.onError(error, operation);
+    else console.error(`[state-sdk] Could not ${operation} persisted state "${storageKey()}":`, error);
+  }
+
+  function scheduleSave() {
+    if (!hydrated) return;
+    if (saveTimer !== null) clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      save().catch((error) => reportError(error, 'save'));
+    }, cfg.debounceMs);
+  }
+
+  /** Read and migrate persisted data; null when nothing usable is stored */
+  async function load(): Promise<PersistedState | null> {
+    const raw = (await storage.getItem(storageKey())) as PersistedState | null;
+    if (raw == null) return null;
+    if (raw.version === cfg.version) return raw;
+    // Incompatible schema and no way to upgrade it: start fresh
+    if (!cfg.migrate) return null;
+    return await cfg.migrate(raw, raw.version);
+  }
+
+  function restore(data: PersistedState) {
+    const branching = (api as any).__branches;
+    if (data.branching && branching) {
+      branching.hydrate(data.branching);
+      return;
+    }
+
+    const createTravels = (api as any).__createTravels;
+    if (data.timeline && createTravels) {
+      const { patches, position } = data.timeline;
+      (api as any).__attachTravels(
+        createTravels(deepClone(data.state), { patches: deepClone(patches), position })
+      );
+    }
+    (api.setState as any)({ ...deepClone(data.state), ...separateStateAndActions(get() as Record<string, any>).actions }, true);
+  }
+
+  async function rehydrate() {
+    hydrated = false;
+    try {
+      const data = await load();
+      if (data) restore(data);
+    } finally {
+      hydrated = true;
+    }
+  }
+
+  const result = initializer(set, get, api);
+
+  api.subscribe(scheduleSave);
+  (api as any).branch?.subscribe(scheduleSave);
+
+  // Queued after the branching layer's main-branch setup
+  let hydration: Promise<void> = new Promise((resolve, reject) => {
+    queueMicrotask(() => {
+      rehydrate().then(resolve, reject);
+    });
+  });
+  // Report a failed first load; whenHydrated() still rejects for callers awaiting it
+  hydration.catch((error) => reportError(error, 'load'));
+
+  const persistApi: PersistApi = {
+    rehydrate() {
+      hydration = rehydrate();
+      return hydration;
+    },
+    flush: () => save(),
+    async clear() {
+      if (saveTimer !== null) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+      }
+      await storage.removeItem(storageKey());
+    },
+    hasHydrated: () => hydrated,
+    whenHydrated: () => hydration,
+  };
+
+  (api as any).persist = persistApi;
+
+  return result;
+};
+
+function createNoopPersist(): PersistApi {
+  return {
+    rehydrate: async () => {},
+    flush: async () => {},
+    clear: async () => {},
+    hasHydrated: () => true,
+    whenHydrated: async () => {},
+  };
+}
+
+export const persist = persistImpl as Persist;
@@ -0,0 +1,282 @@
+/**
+ * Recorder middleware — captures calls made through the store's action
+ * functions (name + serializable arguments) so a session can be replayed
+ * against new code and verified against the recorded patches.
+ *
+ * Sits directly around the tracking layer, so the wrapped actions are the
+ * ones the timeline layer keeps and restores on undo/redo.
+ */
+import { apply } from 'mutative';
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type {
+  RecordedCall,
+  Recording,
+  RecorderApi,
+  RecorderConfig,
+  ReplayMismatch,
+  ReplayOptions,
+  ReplayResult,
+  ReplayStep,
+} from '../types.js';
+import { getCurrentCall } from '../asyncAction.js';
+import { serializer } from '../serializer.js';
+import {
+  deepClone,
+  deepEqual,
+  diffPatches,
+  isStructural,
+  separateStateAndActions,
+} from '../utils.js';
+
+type Recorder = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, Mps, Mcs>,
+  config?: RecorderConfig
+) => StateCreator<T, Mps, Mcs>;
+
+type RecorderImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  config?: RecorderConfig
+) => StateCreator<T, [], []>;
+
+type StepListener = (step: ReplayStep, before: unknown, after: unknown) => void;
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as any)?.then === 'function';
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether the serializer brings `value` back as it was: plain data, and
+ * class instances only when a codec handles them. Functions, symbols and
+ * circular references are not.
+ */
+function isEncodable(value: unknown, ancestors: object[] = []): boolean {
+  if (typeof value === 'function' || typeof value === 'symbol') return false;
+  if (typeof value !== 'object' || value === null) return true;
+  if (ancestors.includes(value)) return false;
+  if (!isStructural(value)) return serializer.handles(value);
+  const path = [...ancestors, value];
+  return Object.values(value).every((item) => isEncodable(item, path));
+}
+
+/** Encode arguments with the tagged serializer so the recording can be saved and shipped */
+function encodeArgs(args: unknown[]): { args: unknown[]; serializable: boolean } {
+  if (!isEncodable(args)) return { args: [], serializable: false };
+  return { args: serializer.encode(args) as unknown[], serializable: true };
+}
+
+const recorderImpl: RecorderImpl = (initializer, config) => (set, get, api) => {
+  const cfg = { enabled: true, autoStart: false, ...config };
+
+  if (!cfg.enabled) {
+    (api as any).recorder = createNoopRecorder();
+    return initializer(set, get, api);
+  }
+
+  let recording: Recording | null = null;
+  let replaying = false;
+  // Recorded async calls that have not settled yet
+  const pending: RecordedCall[] = [];
+
+  function dataState(): Record<string, unknown> {
+    return separateStateAndActions(get() as Record<string, any>).state as Record<string, unknown>;
+  }
+
+  /**
+   * Whether an action of this store is running synchronously further up the
+   * stack: only outermost calls are recorded, nested ones replay with them.
+   * A pending async flow does not count, as calls made while it awaits
+   * cannot be told apart from its own continuation; like the tracking layer,
+   * those are treated as calls of their own.
+   */
+  function calledFromStore(): boolean {
+    for (let call = getCurrentCall(); call; call = call.parent) {
+      if (call.storeId === (api as any).__id) return true;
+    }
+    return false;
+  }
+
+  function wrap(actionName: string, fn: (...args: any[]) => unknown) {
+    return function recorded(this: unknown, ...args: any[]) {
+      if (!recording || replaying || calledFromStore()) return fn.apply(this, args);
+
+      const before = dataState();
+      const call: RecordedCall = {
+        actionName,
+        ...encodeArgs(args),
+        timestamp: Date.now(),
+        patches: [],
+      };
+      recording.calls.push(call);
+
+      let result: unknown;
+      try {
+        result = fn.apply(this, args);
+      } finally {
+        call.patches = diffPatches(before, dataState());
+      }
+
+      // Async actions: set() calls made after an await are added by recordingSet
+      if (isThenable(result)) {
+        pending.push(call);
+        const settle = () => {
+          pending.splice(pending.indexOf(call), 1);
+        };
+        result.then(settle, settle);
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Add a change made outside any synchronous action call to the pending
+   * async call it belongs to. As in the tracking layer, that is only known
+   * while a single one is pending.
+   */
+  const recordingSet: typeof set = (partial: any, replace?: any) => {
+    if (!recording || replaying || pending.length !== 1 || getCurrentCall()) {
+      (set as any)(partial, replace);
+      return;
+    }
+    const before = dataState();
+    (set as any)(partial, replace);
+    pending[0].patches.push(...diffPatches(before, dataState()));
+  };
+
+  const initialState = initializer(recordingSet, get, api) as Record<string, any>;
+
+  const wrapped: Record<string, any> = { ...initialState };
+  for (const key of Object.keys(initialState)) {
+    if (typeof initialState[key] === 'function') {
+      wrapped[key] = wrap(key, initialState[key]);
+    }
+  }
+
+  /** Put the store back to `state` with a fresh timeline */
+  function resetTo(state: Record<string, unknown>) {
+    const createTravels = (api as any).__createTravels;
+    if (createTravels) {
+      (api as any).__attachTravels(createTravels(deepClone(state)));
+    }
+    const actions = separateStateAndActions(wrapped).actions;
+    (api.setState as any)({ ...deepClone(state), ...actions }, true);
+  }
+
+  async function run(
+    source: Recording,
+    options: ReplayOptions = {},
+    onStep?: StepListener
+  ): Promise<ReplayResult> {
+    const { speed = Infinity, stopAt = source.calls.length } = options;
+    const calls = source.calls.slice(0, Math.max(0, stopAt));
+
+    const unserializable = calls.findIndex((c) => !c.serializable);
+    if (unserializable !== -1) {
+      throw new Error(
+        `Call #${unserializable} ("${calls[unserializable].actionName}") has arguments that could not be serialized and cannot be replayed`
+      );
+    }
+
+    resetTo(source.initialState);
+
+    const steps: ReplayStep[] = [];
+    replaying = true;
+    try {
+      for (let i = 0; i < calls.length; i++) {
+        const call = calls[i];
+        if (i > 0 && speed > 0 && Number.isFinite(speed)) {
+          await delay((call.timestamp - calls[i - 1].timestamp) / speed);
+        }
+
+        const action = (get() as Record<string, any>)[call.actionName];
+        if (typeof action !== 'function') {
+          throw new Error(`Action "${call.actionName}" not found on store "${(api as any).__name}"`);
+        }
+
+        const before = dataState();
+        const result = action(...(serializer.decode(call.args) as unknown[]));
+        if (isThenable(result)) await result;
+        const after = dataState();
+
+        const step: ReplayStep = {
+          index: i,
+          actionName: call.actionName,
+          patches: diffPatches(before, after),
+        };
+        steps.push(step);
+        onStep?.(step, before, after);
+      }
+    } finally {
+      replaying = false;
+    }
+
+    return { replayed: steps.length, steps };
+  }
+
+  function emptyRecording(state: Record<string, unknown>): Recording {
+    return {
+      storeName: (api as any).__name,
+      startedAt: Date.now(),
+      initialState: deepClone(state),
+      calls: [],
+    };
+  }
+
+  const recorderApi: RecorderApi = {
+    start() {
+      recording = emptyRecording(dataState());
+    },
+    stop() {
+      const result = recording ?? emptyRecording(dataState());
+      recording = null;
+      return deepClone(result);
+    },
+    get isRecording() {
+      return recording !== null;
+    },
+    replay: (source, options) => run(source, options),
+    async verify(source, options) {
+      const mismatches: ReplayMismatch[] = [];
+      const { replayed } = await run(source, options, (step, before, after) => {
+        const expected = source.calls[step.index].patches;
+        if (!deepEqual(apply(before as object, expected), after)) {
+          mismatches.push({
+            index: step.index,
+            actionName: step.actionName,
+            expected: deepClone(expected),
+            actual: step.patches,
+          });
+        }
+      });
+      return { ok: mismatches.length === 0, replayed, mismatches };
+    },
+  };
+
+  (api as any).recorder = recorderApi;
+
+  if (cfg.autoStart) {
+    // The store has no state yet; start from what the initializer returned
+    recording = emptyRecording(separateStateAndActions(initialState).state);
+  }
+
+  return wrapped as any;
+};
+
+function createNoopRecorder(): RecorderApi {
+  return {
+    start() {},
+    stop: () => ({ storeName: '', startedAt: Date.now(), initialState: {}, calls: [] }),
+    isRecording: false,
+    replay: async () => ({ replayed: 0, steps: [] }),
+    verify: async () => ({ ok: true, replayed: 0, mismatches: [] }),
+  };
+}
+
+export const recorder = recorderImpl as Recorder;
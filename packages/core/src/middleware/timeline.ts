@@ -5,12 +5,22 @@
  * Pattern adapted from zustand-travel, with additions for our branching layer.
  */
 import { Travels, type Updater } from 'travels';
+import { apply, create as mutativeCreate, type Patches } from 'mutative';
 import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
-import type { TemporalApi, TimelineConfig } from '../types.js';
-import { separateStateAndActions } from '../utils.js';
+import type {
+  BranchTimelineOptions,
+  CoalesceInfo,
+  TemporalApi,
+  TimelineConfig,
+  TimelineMark,
+  TravelPatches,
+} from '../types.js';
+import { extractActionName, separateStateAndActions } from '../utils.js';
+import { createPathFilter, type PathFilter } from '../pathFilter.js';
 import { bridge } from '../bridge.js';
+import { getActiveTransaction } from '../transaction.js';
 
-const DEFAULT_CONFIG: Required<TimelineConfig> = {
+const DEFAULT_CONFIG: Required<Omit<TimelineConfig, 'track' | 'ignore' | 'coalesce'>> = {
   enabled: true,
   maxHistory: 100,
   autoArchive: true,
@@ -30,33 +40,254 @@ type TimelineImpl = <T>(
   config?: TimelineConfig
 ) => StateCreator<T, [], []>;
 
+/** Whether `name` names `actionName`, either in full (`store/action`) or by the action alone */
+function isActionName(actionName: string, name: string): boolean {
+  return actionName === name || actionName.slice(actionName.indexOf('/') + 1) === name;
+}
+
 const timelineImpl: TimelineImpl = (initializer, config) => (set, get, api) => {
-  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const storeConfig = { ...DEFAULT_CONFIG, ...config };
 
-  if (!cfg.enabled) {
+  if (!storeConfig.enabled) {
     (api as any).temporal = createNoopTemporal();
     return initializer(set, get, api);
   }
 
   let travels: Travels<any, false, true>;
+  let controls: ReturnType<Travels<any, false, true>['getControls']>;
+  let unsubscribeTravels: (() => void) | null = null;
   let actions: Record<string, any> = {};
   let isInitializing = true;
 
+  // Settings of the live Travels instance: the store's config, with the
+  // overrides of the branch it belongs to (see attachTravels)
+  let cfg = storeConfig;
+  // Only tracked paths go into Travels; the rest lives in zustand alone
+  const storeFilter = createPathFilter(cfg.track, cfg.ignore);
+  let filter = storeFilter;
+  const instanceSettings = new WeakMap<object, { cfg: typeof cfg; filter: PathFilter | null }>();
+  // Full next state while a filtered change is being recorded, so the sync
+  // below picks up its untracked part instead of the previous one
+  let pendingState: unknown = null;
+
+  /** Full data state to apply updaters to (Travels only holds tracked paths) */
+  function currentState(): any {
+    return filter
+      ? separateStateAndActions(get() as Record<string, any>).state
+      : travels.getState();
+  }
+
+  /** Convert any set() argument into a mutative recipe */
+  function toRecipe(partial: any, replace?: boolean): (draft: any) => any {
+    if (typeof partial === 'function') return partial;
+    return (draft: any) => {
+      if (replace) {
+        for (const key of Object.keys(draft)) {
+          if (!(key in partial)) delete draft[key];
+        }
+      }
+      Object.assign(draft, separateStateAndActions(partial).state);
+    };
+  }
+
+  // With autoArchive on, Travels archives every change itself, so each entry
+  // keeps path-level patches that branches can replay. The timeline decides
+  // whether a change folds into the last entry instead (coalescing, batch()
+  // and singleUndo calls) by rewriting that entry.
+  let lastSet: CoalesceInfo | null = null;
+  // Position of the entry later changes may still extend
+  let openEntry: number | null = null;
+  let batchDepth = 0;
+  // Set while an entry is being rewritten, so the intermediate state is not synced
+  let rewriting = false;
+  // Bumped on every Travels change, to tell whether a write recorded anything
+  let changeCount = 0;
+
+  /** Close the open entry, if any, so the next set() starts a new one */
+  function closeEntry() {
+    lastSet = null;
+    openEntry = null;
+  }
+
+  /** Write a change as a new entry, or fold it into the open one */
+  function writeEntry(update: Updater<any>) {
+    const position = controls.position;
+    const entry = openEntry === position ? travels.getPatches().patches[position - 1] : null;
+    const before = changeCount;
+
+    // Entries restored from whole-state patches cannot be extended
+    if (entry && !entry.some((patch) => patch.path.length === 0)) {
+      rewriting = true;
+      try {
+        travels.back();
+      } finally {
+        rewriting = false;
+      }
+      travels.setState(((draft: any) => {
+        apply(draft, entry);
+        return typeof update === 'function' ? (update as (draft: any) => any)(draft) : update;
+      }) as Updater<any>);
+    } else {
+      travels.setState(update);
+    }
+
+    // A change that cancels the open entry out leaves no entry to extend
+    openEntry = changeCount > before && controls.position > 0 ? controls.position : null;
+  }
+
+  function shouldMerge(prev: CoalesceInfo, next: CoalesceInfo): boolean {
+    const { windowMs, actions: names, shouldMerge: predicate } = cfg.coalesce ?? {};
+    if (predicate?.(prev, next)) return true;
+    return (
+      windowMs !== undefined &&
+      prev.actionName === next.actionName &&
+      next.timestamp - prev.timestamp <= windowMs &&
+      (!names || names.some((name) => isActionName(next.actionName, name)))
+    );
+  }
+
+  /**
+   * Write a change to Travels, either extending the open history entry or
+   * starting a new one. `mergeable: false` always records its own entry.
+   */
+  function recordStep(actionName: string, update: Updater<any>, mergeable = true) {
+    if (!cfg.autoArchive) {
+      travels.setState(update);
+      return;
+    }
+
+    const call = (api as any).__currentCall?.();
+    const info: CoalesceInfo = { actionName, timestamp: Date.now(), correlationId: call?.id };
+    // Action calls with singleUndo write into one entry, closed when they finish
+    const grouped = mergeable && !!call?.singleUndo;
+    const inBatch = batchDepth > 0 && mergeable;
+    const sameCall = grouped && lastSet?.correlationId === call.id;
+    if (!inBatch && !sameCall && !(mergeable && lastSet && shouldMerge(lastSet, info))) {
+      closeEntry();
+    }
+
+    writeEntry(update);
+    if (openEntry !== null) lastSet = info;
+
+    // Without a policy that could extend it, the entry is complete right away
+    if (!inBatch && !grouped && (!cfg.coalesce || !mergeable)) closeEntry();
+  }
+
+  /**
+   * Record a change when track/ignore is configured: tracked patches become
+   * a Travels step, changes confined to ignored paths only update zustand.
+   * Returns whether a history step was recorded.
+   */
+  function recordFiltered(
+    next: unknown,
+    patches: Patches,
+    actionName: string,
+    mergeable = true
+  ): boolean {
+    const tracked = filter!.projectPatches(patches);
+    if (tracked.length === 0) {
+      (set as any)({ ...(next as object), ...actions }, true);
+      return false;
+    }
+    pendingState = next;
+    try {
+      recordStep(
+        actionName,
+        ((draft: any) => {
+          apply(draft, tracked);
+        }) as Updater<any>,
+        mergeable
+      );
+    } finally {
+      pendingState = null;
+    }
+    return true;
+  }
+
+  // Changes buffered during a cross-store transaction(), recorded as one step on commit
+  let txBuffer: { base: any; state: any; patches: Patches; from: number } | null = null;
+
+  function bufferInTransaction(
+    tx: NonNullable<ReturnType<typeof getActiveTransaction>>,
+    partial: any,
+    replace?: boolean
+  ) {
+    if (!txBuffer) {
+      const base = currentState();
+      txBuffer = { base, state: base, patches: [], from: controls.position };
+      tx.join({
+        commit: () => {
+          const buffer = txBuffer!;
+          txBuffer = null;
+          if (buffer.patches.length === 0) return;
+          if (filter) {
+            if (!recordFiltered(buffer.state, buffer.patches, tx.name, false)) return;
+          } else {
+            recordStep(
+              tx.name,
+              ((draft: any) => {
+                apply(draft, buffer.patches);
+              }) as Updater<any>,
+              false
+            );
+          }
+          const branchId: string | undefined = (api as any).__branches?.activeId();
+          return {
+            storeId: (api as any).__id,
+            from: buffer.from,
+            to: controls.position,
+            ...(branchId !== undefined && { branchId }),
+          };
+        },
+        rollback: () => {
+          const buffer = txBuffer!;
+          txBuffer = null;
+          (set as any)({ ...buffer.base, ...actions }, true);
+        },
+      });
+    }
+
+    const [next, patches] = mutativeCreate(txBuffer.state, toRecipe(partial, replace), {
+      enablePatches: true,
+    }) as [unknown, Patches, Patches];
+    txBuffer.state = next;
+    txBuffer.patches.push(...patches);
+
+    // Keep zustand current so reads inside the transaction see the change
+    (set as any)({ ...(next as object), ...actions }, true);
+  }
+
   // Custom set that routes through travels (Mutative handles immutable updates internally)
   const travelSet: typeof set = (partial: any, replace?: any) => {
     if (isInitializing) {
       return (set as any)(partial, replace);
     }
 
-    if (typeof partial === 'function') {
-      // Mutation-style updater: set((state) => { state.count++ })
-      travels.setState(partial as Updater<any>);
-    } else if (replace) {
-      // Full replacement: set(newState, true)
-      travels.setState(partial as Updater<any>);
+    const tx = getActiveTransaction();
+    if (tx) {
+      bufferInTransaction(tx, partial, replace);
+      return;
+    }
+
+    // The running action (`store/action`), else the updater's function name
+    const actionName: string =
+      (api as any).__currentCall?.()?.actionName ?? extractActionName(partial);
+
+    if (filter) {
+      const [next, patches] = mutativeCreate(currentState(), toRecipe(partial, replace), {
+        enablePatches: true,
+      }) as [unknown, Patches, Patches];
+      recordFiltered(next, patches, actionName);
+      return;
+    }
+
+    if (typeof partial === 'function' || replace) {
+      // Mutation-style updater set((state) => { state.count++ }), or a full
+      // replacement set(newState, true)
+      recordStep(actionName, partial as Updater<any>);
     } else {
       // Partial update: set({ count: 1 }) → convert to mutation
-      travels.setState(((draft: any) => {
+      recordStep(actionName, ((draft: any) => {
         Object.assign(draft, partial);
       }) as Updater<any>);
     }
@@ -68,6 +299,20 @@ const timelineImpl: TimelineImpl = (initializer, config) => (set, get, api) => {
     for (const listener of listeners) listener();
   }
 
+  // Bookmarks live outside Travels so they survive branch switches
+  const marks = new Map<string, TimelineMark>();
+
+  function listMarks(): TimelineMark[] {
+    return Array.from(marks.values(), (m) => ({ ...m }));
+  }
+
+  function emitUpdate() {
+    bridge.emit('timeline:update', (api as any).__id, {
+      position: controls.position,
+      marks: listMarks(),
+    });
+  }
+
   // Call the user's initializer with our wrapped set
   const initialState = initializer(travelSet as any, get, api);
 
@@ -76,26 +321,93 @@ const timelineImpl: TimelineImpl = (initializer, config) => (set, get, api) => {
     separateStateAndActions(initialState as Record<string, any>);
   actions = extractedActions as Record<string, any>;
 
-  // Create Travels instance — this is the core undo/redo engine
-  travels = new Travels(dataState, {
-    maxHistory: cfg.maxHistory,
-    autoArchive: cfg.autoArchive,
-  });
+  /**
+   * Create a Travels instance with this store's timeline config, optionally
+   * seeded with saved history. `state` is the state AT `position`.
+   * `overrides` (a branch's settings) are merged over the config and apply
+   * whenever the instance is the live one.
+   */
+  function createTravels(
+    state: Record<string, unknown>,
+    history?: { patches: TravelPatches; position: number },
+    overrides?: BranchTimelineOptions
+  ): Travels<any, false, true> {
+    const instanceCfg = overrides ? { ...storeConfig, ...overrides } : storeConfig;
+    const instanceFilter = overrides
+      ? createPathFilter(instanceCfg.track, instanceCfg.ignore)
+      : storeFilter;
+    const instance = new Travels(instanceFilter ? instanceFilter.project(state) : state, {
+      maxHistory: instanceCfg.maxHistory,
+      // Grouping of entries is managed by recordStep() when autoArchive is on
+      autoArchive: instanceCfg.autoArchive,
+      initialPatches: history?.patches,
+      initialPosition: history?.position,
+    });
+    instanceSettings.set(instance, { cfg: instanceCfg, filter: instanceFilter });
+    return instance as unknown as Travels<any, false, true>;
+  }
 
-  isInitializing = false;
+  /** Full data state of a Travels instance; untracked paths come from `base` */
+  function withUntracked(
+    instance: Travels<any, false, true>,
+    base: Record<string, unknown>
+  ): Record<string, unknown> {
+    const instanceFilter = instanceSettings.get(instance)?.filter ?? storeFilter;
+    const tracked = instance.getState();
+    return (instanceFilter
+      ? instanceFilter.merge(tracked, instanceFilter.untracked(base))
+      : tracked) as Record<string, unknown>;
+  }
 
-  // When travels changes state (via undo/redo/go), sync back to zustand store
-  travels.subscribe((state) => {
-    const nextState = { ...state, ...actions };
-    (set as any)(nextState, true);
-    notifyListeners();
+  /**
+   * Make `next` the live Travels instance: set() writes to it, temporal
+   * reads from it, and its changes are synced back to zustand.
+   * Used by the branching and persist layers to swap in restored history.
+   */
+  function attachTravels(next: Travels<any, false, true>) {
+    unsubscribeTravels?.();
+    travels = next;
+    controls = next.getControls();
+    ({ cfg, filter } = instanceSettings.get(next) ?? { cfg: storeConfig, filter: storeFilter });
+    closeEntry();
 
-    bridge.emit('timeline:update', (api as any).__id, {
-      position: controls.position,
+    // When travels changes state (via undo/redo/go), sync back to zustand store
+    unsubscribeTravels = next.subscribe((state) => {
+      changeCount++;
+      if (rewriting) return;
+      // Ignored paths keep their current zustand values across undo/redo
+      const data = filter
+        ? filter.merge(state, filter.untracked(pendingState ?? currentState()))
+        : state;
+      const nextState = { ...(data as object), ...actions };
+      (set as any)(nextState, true);
+      notifyListeners();
+      emitUpdate();
     });
-  });
 
-  const controls = travels.getControls();
+    (api as any).__travels = next;
+  }
+
+  // Create Travels instance — this is the core undo/redo engine
+  attachTravels(createTravels(dataState));
+
+  isInitializing = false;
+
+  /**
+   * End the current history entry. Without autoArchive this records the
+   * changes made since the last archive() as one step; with it, the next
+   * set() starts a new entry instead of extending a batched or coalesced one.
+   */
+  function archive() {
+    if (cfg.autoArchive) {
+      closeEntry();
+      return;
+    }
+    if (!travels.canArchive()) return;
+    travels.archive();
+    notifyListeners();
+    emitUpdate();
+  }
 
   // Build temporal API (our public interface)
   const temporal: TemporalApi<any> = {
@@ -112,6 +424,48 @@ const timelineImpl: TimelineImpl = (initializer, config) => (set, get, api) => {
     get patches() {
       return controls.patches;
     },
+    batch(fn: () => void) {
+      if (batchDepth === 0) archive();
+      batchDepth++;
+      try {
+        fn();
+      } finally {
+        batchDepth--;
+        if (batchDepth === 0) archive();
+      }
+    },
+    archive,
+    mark(label: string) {
+      const mark: TimelineMark = {
+        label,
+        position: controls.position,
+        branchId: (api as any).__branches?.activeId() ?? null,
+        createdAt: Date.now(),
+      };
+      // Re-marking moves the label to the end of the list
+      marks.delete(label);
+      marks.set(label, mark);
+      notifyListeners();
+      emitUpdate();
+      return { ...mark };
+    },
+    goToMark(label: string) {
+      const mark = marks.get(label);
+      if (!mark) throw new Error(`Mark "${label}" not found`);
+
+      const activeBranchId = (api as any).__branches?.activeId() ?? null;
+      if (mark.branchId && mark.branchId !== activeBranchId) {
+        const switched: boolean | Promise<boolean> = (api as any).branch.switch(mark.branchId);
+        if (switched instanceof Promise) {
+          return switched.then((ok) => {
+            if (ok) controls.go(mark.position);
+          });
+        }
+        if (!switched) return;
+      }
+      controls.go(mark.position);
+    },
+    listMarks,
     subscribe(listener: () => void) {
       listeners.add(listener);
       return () => { listeners.delete(listener); };
@@ -119,9 +473,15 @@ const timelineImpl: TimelineImpl = (initializer, config) => (set, get, api) => {
   };
 
   (api as any).temporal = temporal;
-  // Expose for branching layer to snapshot/restore
-  (api as any).__travels = travels;
+  // Expose for branching/persist layers to snapshot/restore
   (api as any).__actions = actions;
+  (api as any).__createTravels = createTravels;
+  (api as any).__withUntracked = withUntracked;
+  (api as any).__archive = closeEntry;
+  (api as any).__attachTravels = (next: Travels<any, false, true>) => {
+    attachTravels(next);
+    notifyListeners();
+  };
 
   return initialState;
 };
@@ -137,6 +497,11 @@ function createNoopTemporal(): TemporalApi<any> {
     position: 0,
     getHistory: () => [],
     patches: { patches: [], inversePatches: [] },
+    batch: (fn) => fn(),
+    archive() {},
+    mark: (label) => ({ label, position: 0, branchId: null, createdAt: Date.now() }),
+    goToMark() {},
+    listMarks: () => [],
     subscribe: () => () => {},
   };
 }
@@ -0,0 +1,154 @@
+/**
+ * Tracking middleware — wraps the store's action functions so the inspector
+ * and timeline know which action call a set() belongs to.
+ *
+ * Every set() made during a call is logged as `store/action` with the call's
+ * arguments; nested calls add to a call-stack breadcrumb. Each outermost
+ * call gets a correlation id. Async actions (declared with
+ * asyncAction() or detected by returning a promise) stay open until they
+ * settle: set() calls made after an await are attributed to the flow when
+ * it is the only one running on the store. Action calls only nest when made
+ * synchronously from another call, so an action called while a flow awaits
+ * starts a call of its own. The inspector logs start, success and error
+ * entries for flows.
+ *
+ * Sits innermost so the wrapped actions are the ones the timeline keeps.
+ */
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type { AsyncActionsConfig } from '../types.js';
+import {
+  ASYNC_ACTION,
+  getCurrentCall,
+  runInCall,
+  type ActionCall,
+  type AsyncActionMarker,
+} from '../asyncAction.js';
+import { extractActionName, generateId } from '../utils.js';
+
+type Tracking = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, Mps, Mcs>,
+  config?: AsyncActionsConfig
+) => StateCreator<T, Mps, Mcs>;
+
+type TrackingImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  config?: AsyncActionsConfig
+) => StateCreator<T, [], []>;
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as any)?.then === 'function';
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const trackingImpl: TrackingImpl = (initializer, config) => (set, get, api) => {
+  const cfg = { autoDetect: true, singleUndo: false, ...config };
+
+  // Async flows of this store that have not settled yet
+  const pending: ActionCall[] = [];
+
+  /** The call a set() on this store belongs to, if any */
+  function currentCall(): ActionCall | null {
+    return getCurrentCall() ?? (pending.length === 1 ? pending[0] : null);
+  }
+
+  function logLifecycle(call: ActionCall, phase: 'start' | 'success' | 'error', error?: unknown) {
+    (api as any).__logLifecycle?.(call, phase, phase === 'error' ? errorMessage(error) : undefined);
+  }
+
+  /** Track an async call until its promise settles */
+  function trackFlow(call: ActionCall, result: PromiseLike<unknown>): Promise<unknown> {
+    pending.push(call);
+
+    const finish = () => {
+      pending.splice(pending.indexOf(call), 1);
+      // Close the single undo step the flow was writing to
+      if (call.singleUndo) (api as any).__archive?.();
+    };
+
+    return Promise.resolve(result).then(
+      (value) => {
+        finish();
+        logLifecycle(call, 'success');
+        return value;
+      },
+      (error) => {
+        finish();
+        logLifecycle(call, 'error', error);
+        throw error;
+      }
+    );
+  }
+
+  function wrap(key: string, fn: (...args: any[]) => unknown) {
+    const marker: AsyncActionMarker | undefined = (fn as any)[ASYNC_ACTION];
+    const singleUndo = marker?.options.singleUndo ?? cfg.singleUndo;
+
+    return function tracked(this: unknown, ...args: any[]) {
+      const actionName = `${(api as any).__name}/${marker?.name ?? key}`;
+      // Only synchronous callers are known here: a pending flow cannot tell
+      // its own continuation from an unrelated call made while it awaits
+      const parent = getCurrentCall();
+
+      // Nested calls join the outer call
+      if (parent && !marker) {
+        const frame: ActionCall = { ...parent, actionName, args, storeId: (api as any).__id, parent };
+        return runInCall(frame, () => fn.apply(this, args));
+      }
+
+      const call: ActionCall = {
+        id: generateId(),
+        actionName,
+        args,
+        storeId: (api as any).__id,
+        singleUndo,
+        parent,
+      };
+
+      if (marker) logLifecycle(call, 'start');
+      const result = runInCall(call, () => fn.apply(this, args));
+
+      if (!isThenable(result)) {
+        if (singleUndo) (api as any).__archive?.();
+        return result;
+      }
+      if (!marker && !cfg.autoDetect) return result;
+      if (!marker) logLifecycle(call, 'start');
+      return trackFlow(call, result);
+    };
+  }
+
+  // Name of the set() being applied, for changes made outside any action
+  let setName: string | null = null;
+
+  const namedSet: typeof set = (partial: any, replace?: any) => {
+    const outer = setName;
+    setName = extractActionName(partial);
+    try {
+      (set as any)(partial, replace);
+    } finally {
+      setName = outer;
+    }
+  };
+
+  (api as any).__currentCall = currentCall;
+  (api as any).__setName = () => setName;
+
+  const initialState = initializer(namedSet, get, api) as Record<string, any>;
+
+  const wrapped: Record<string, any> = { ...initialState };
+  for (const key of Object.keys(initialState)) {
+    if (typeof initialState[key] === 'function') {
+      wrapped[key] = wrap(key, initialState[key]);
+    }
+  }
+  return wrapped as any;
+};
+
+export const tracking = trackingImpl as Tracking;
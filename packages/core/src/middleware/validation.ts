@@ -0,0 +1,64 @@
+/**
+ * Validation middleware — attaches the store schema (used by mock and
+ * snapshot imports) and, with `validateOnSet`, checks every set() before
+ * it reaches the timeline. Invalid updates throw a StateValidationError
+ * and leave state and history untouched.
+ */
+import { current, isDraft } from 'mutative';
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type { ValidationConfig } from '../types.js';
+import { StateValidationError, checkSchema } from '../schema.js';
+import { separateStateAndActions } from '../utils.js';
+
+type Validation = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, Mps, Mcs>,
+  config?: ValidationConfig
+) => StateCreator<T, Mps, Mcs>;
+
+type ValidationImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  config?: ValidationConfig
+) => StateCreator<T, [], []>;
+
+const validationImpl: ValidationImpl = (initializer, config) => (set, get, api) => {
+  const schema = config?.schema;
+  if (!schema) return initializer(set, get, api);
+
+  (api as any).__schema = schema;
+  if (!config.validateOnSet) return initializer(set, get, api);
+
+  function assertValid(next: unknown) {
+    const data = separateStateAndActions(next as Record<string, any>).state;
+    const issues = checkSchema(schema!, (api as any).__name, data);
+    if (issues.length > 0) throw new StateValidationError(issues);
+  }
+
+  const validatedSet: typeof set = (partial: any, replace?: any) => {
+    if (typeof partial === 'function') {
+      // Mutation-style updater: check the draft before the change is committed
+      const checked = (draft: any) => {
+        const result = partial(draft);
+        const next = result === undefined || result === draft ? draft : result;
+        assertValid(isDraft(next) ? current(next) : next);
+        return result;
+      };
+      // Keep the updater's name: it names set() calls made outside an action
+      Object.defineProperty(checked, 'name', { value: partial.name });
+      return (set as any)(checked, replace);
+    }
+
+    // Spreading get() would turn computed values into data
+    assertValid(
+      replace ? partial : { ...separateStateAndActions(get() as Record<string, any>).state, ...partial }
+    );
+    return (set as any)(partial, replace);
+  };
+
+  return initializer(validatedSet, get, api);
+};
+
+export const validation = validationImpl as Validation;
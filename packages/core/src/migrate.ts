@@ -0,0 +1,69 @@
+/**
+ * Store data migrations.
+ *
+ * Each store declares the version of its data shape (`StoreConfig.version`,
+ * default 1) and optionally `migrate(oldState, fromVersion)` to upgrade data
+ * written by an older version. Snapshots and scenes record the version of
+ * every store they contain, so imports can upgrade old data before it
+ * reaches the store. Data without a recorded version is treated as version 1.
+ */
+import type { EnhancedStoreApi, StoreMigrate } from './types.js';
+import { registry } from './registry.js';
+import { deepClone } from './utils.js';
+
+/** Current data version of a store */
+export function getStoreVersion<T>(store: EnhancedStoreApi<T>): number {
+  return (store as any).__version ?? 1;
+}
+
+/** Current data versions of all registered stores, by name */
+export function getStoreVersions(): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const entry of registry.getAll()) {
+    versions[entry.name] = getStoreVersion(entry.store);
+  }
+  return versions;
+}
+
+/**
+ * Upgrade data written at `fromVersion` to the store's current shape.
+ * Throws when the data is newer than the store or no migrate() is configured.
+ */
+export function migrateState<T>(
+  store: EnhancedStoreApi<T>,
+  data: Record<string, unknown>,
+  fromVersion = 1
+): Record<string, unknown> {
+  const version = getStoreVersion(store);
+  if (fromVersion === version) return data;
+
+  if (fromVersion > version) {
+    throw new Error(
+      `Data for store "${store.__name}" is at version ${fromVersion}, newer than the store (version ${version})`
+    );
+  }
+
+  const migrate: StoreMigrate | undefined = (store as any).__migrate;
+  if (!migrate) {
+    throw new Error(
+      `Store "${store.__name}" has no migrate() to upgrade data from version ${fromVersion} to ${version}`
+    );
+  }
+  return migrate(deepClone(data), fromVersion);
+}
+
+/**
+ * Migrate data for several stores by name. Stores that are not registered
+ * are passed through untouched.
+ */
+export function migrateStores(
+  stores: Record<string, Record<string, unknown>>,
+  versions: Record<string, number> = {}
+): Record<string, Record<string, unknown>> {
+  const result: Record<string, Record<string, unknown>> = {};
+  for (const [name, data] of Object.entries(stores)) {
+    const entry = registry.getByName(name);
+    result[name] = entry ? migrateState(entry.store, data, versions[name] ?? 1) : data;
+  }
+  return result;
+}
@@ -0,0 +1,119 @@
+import type { Patches } from 'mutative';
+import { isPlainObject } from './utils.js';
+
+type Path = Array<string | number>;
+
+/** How a path relates to the track/ignore configuration */
+type Coverage = 'all' | 'none' | 'partial';
+
+const MISSING = Symbol('missing');
+
+/**
+ * Parse a key name or JSON path into segments.
+ * Accepts `key`, dotted paths (`user.loading`, `$.user.loading`) and
+ * JSON Pointers (`/user/loading`).
+ */
+export function parsePath(path: string): string[] {
+  if (path.startsWith('/')) {
+    return path
+      .slice(1)
+      .split('/')
+      .map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+  return path.replace(/^\$\.?/, '').split('.').filter(Boolean);
+}
+
+function startsWith(path: Path, prefix: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((key, i) => String(path[i]) === key);
+}
+
+export interface PathFilter {
+  /** Tracked part of `value` located at `path` */
+  project: (value: unknown, path?: Path) => unknown;
+  /** Untracked part of `value` located at `path` */
+  untracked: (value: unknown, path?: Path) => unknown;
+  /** Deep-merge tracked and untracked parts back into one state */
+  merge: (tracked: unknown, untracked: unknown) => unknown;
+  /** Keep only the tracked part of each patch */
+  projectPatches: (patches: Patches) => Patches;
+}
+
+/**
+ * Build a filter deciding which state paths are recorded in history.
+ * `track` limits history to the given paths; `ignore` removes paths from it.
+ * Returns null when neither is configured.
+ */
+export function createPathFilter(track?: string[], ignore?: string[]): PathFilter | null {
+  const trackPaths = track && track.length > 0 ? track.map(parsePath) : null;
+  const ignorePaths = (ignore ?? []).map(parsePath);
+  if (!trackPaths && ignorePaths.length === 0) return null;
+
+  function coverage(path: Path): Coverage {
+    if (ignorePaths.some((p) => startsWith(path, p))) return 'none';
+
+    if (trackPaths && !trackPaths.some((p) => startsWith(path, p))) {
+      // Ancestor of a tracked path: only part of it is tracked
+      return trackPaths.some((p) => p.length > path.length && startsWith(p, path.map(String)))
+        ? 'partial'
+        : 'none';
+    }
+
+    const hasIgnoredDescendant = ignorePaths.some(
+      (p) => p.length > path.length && startsWith(p, path.map(String))
+    );
+    return hasIgnoredDescendant ? 'partial' : 'all';
+  }
+
+  function select(value: unknown, path: Path, keep: Coverage): unknown {
+    const c = coverage(path);
+    if (c === keep) return value;
+    if (c !== 'partial') return MISSING;
+    // Partially covered non-objects (arrays, primitives) are kept whole
+    if (!isPlainObject(value)) return keep === 'all' ? value : MISSING;
+
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      const sub = select(value[key], [...path, key], keep);
+      if (sub !== MISSING) result[key] = sub;
+    }
+    return result;
+  }
+
+  function project(value: unknown, path: Path = []): unknown {
+    const result = select(value, path, 'all');
+    return result === MISSING ? undefined : result;
+  }
+
+  function untracked(value: unknown, path: Path = []): unknown {
+    const result = select(value, path, 'none');
+    return result === MISSING ? undefined : result;
+  }
+
+  function merge(tracked: unknown, rest: unknown): unknown {
+    if (rest === undefined) return tracked;
+    if (!isPlainObject(tracked) || !isPlainObject(rest)) return rest;
+    const result: Record<string, unknown> = { ...tracked };
+    for (const key of Object.keys(rest)) {
+      result[key] = key in tracked ? merge(tracked[key], rest[key]) : rest[key];
+    }
+    return result;
+  }
+
+  function projectPatches(patches: Patches): Patches {
+    const result: Patches = [];
+    for (const patch of patches) {
+      const path = patch.path as Path;
+      const c = coverage(path);
+      if (c === 'none') continue;
+      if (c === 'all' || patch.op === 'remove') {
+        result.push(patch);
+        continue;
+      }
+      const value = select(patch.value, path, 'all');
+      if (value !== MISSING) result.push({ ...patch, value });
+    }
+    return result;
+  }
+
+  return { project, untracked, merge, projectPatches };
+}
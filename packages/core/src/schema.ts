@@ -0,0 +1,84 @@
+/**
+ * Runtime schema validation for store state.
+ *
+ * Any validator with a zod-like `safeParse` or `parse` method works. Issues
+ * are normalized to { storeName, path, message } so callers (mock, snapshot,
+ * preview client, CLI) can report exactly which store path was rejected.
+ */
+import type { EnhancedStoreApi, SchemaIssue, StateSchema } from './types.js';
+import { separateStateAndActions } from './utils.js';
+
+export class StateValidationError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(formatIssues(issues));
+    this.name = 'StateValidationError';
+    this.issues = issues;
+  }
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path.length > 0 ? path.join('.') : '(root)';
+}
+
+function formatIssues(issues: SchemaIssue[]): string {
+  const [first] = issues;
+  if (!first) return 'Invalid state';
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+  return `Invalid state for store "${first.storeName}" at ${formatPath(first.path)}: ${first.message}${more}`;
+}
+
+/** Normalize a validator error (zod issues, yup-style errors, anything thrown) */
+function toIssues(storeName: string, error: unknown): SchemaIssue[] {
+  const list = (error as any)?.issues ?? (error as any)?.errors;
+  if (Array.isArray(list) && list.length > 0) {
+    return list.map((issue: any) => ({
+      storeName,
+      path: Array.isArray(issue?.path) ? issue.path : [],
+      message: String(issue?.message ?? issue),
+    }));
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return [{ storeName, path: [], message }];
+}
+
+/** Validate data against a schema, returning the issues found */
+export function checkSchema(
+  schema: StateSchema,
+  storeName: string,
+  data: unknown
+): SchemaIssue[] {
+  if (schema.safeParse) {
+    const result = schema.safeParse(data);
+    return result.success ? [] : toIssues(storeName, result.error);
+  }
+  try {
+    schema.parse?.(data);
+    return [];
+  } catch (error) {
+    return toIssues(storeName, error);
+  }
+}
+
+/**
+ * Validate the full next state of a store (actions and computed values are
+ * ignored). Returns an empty list when the store has no schema.
+ */
+export function validateState<T>(
+  store: EnhancedStoreApi<T>,
+  nextState: Record<string, unknown>
+): SchemaIssue[] {
+  const schema: StateSchema | undefined = (store as any).__schema;
+  if (!schema) return [];
+  return checkSchema(schema, store.__name, separateStateAndActions(nextState).state);
+}
+
+/** Like validateState, but throws a StateValidationError on failure */
+export function assertValidState<T>(
+  store: EnhancedStoreApi<T>,
+  nextState: Record<string, unknown>
+): void {
+  const issues = validateState(store, nextState);
+  if (issues.length > 0) throw new StateValidationError(issues);
+}
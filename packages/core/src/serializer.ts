@@ -0,0 +1,172 @@
+/**
+ * Serializer — JSON encoding for state values JSON cannot represent.
+ *
+ * Non-JSON values are written as tagged objects, `{ "$type": name, "value":
+ * payload }`, by a codec registered under `name`. Built-in codecs cover
+ * Date, Map, Set, BigInt and undefined; apps register their own for class
+ * instances. Payloads are encoded recursively, so a Map of Dates round-trips.
+ * Plain objects that happen to have a `$type` key are escaped, so any
+ * encoded value decodes back to exactly what was encoded.
+ */
+import type { SerializerCodec } from './types.js';
+
+const TYPE_KEY = '$type';
+/** Tag for plain objects that contain TYPE_KEY themselves */
+const ESCAPED_OBJECT = 'object';
+
+function isTagged(value: unknown): value is { [TYPE_KEY]: string; value?: unknown } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as any)[TYPE_KEY] === 'string'
+  );
+}
+
+const builtinCodecs: SerializerCodec[] = [
+  {
+    name: 'undefined',
+    test: (value) => value === undefined,
+    encode: () => null,
+    decode: () => undefined,
+  },
+  {
+    name: 'Date',
+    test: (value) => value instanceof Date,
+    encode: (value: Date) => (Number.isNaN(value.getTime()) ? null : value.toISOString()),
+    decode: (data: string | null) => new Date(data ?? NaN),
+  },
+  {
+    name: 'Map',
+    test: (value) => value instanceof Map,
+    encode: (value: Map<unknown, unknown>) => Array.from(value.entries()),
+    decode: (data: Array<[unknown, unknown]>) => new Map(data),
+  },
+  {
+    name: 'Set',
+    test: (value) => value instanceof Set,
+    encode: (value: Set<unknown>) => Array.from(value),
+    decode: (data: unknown[]) => new Set(data),
+  },
+  {
+    name: 'BigInt',
+    test: (value) => typeof value === 'bigint',
+    encode: (value: bigint) => value.toString(),
+    decode: (data: string) => BigInt(data),
+  },
+];
+
+class Serializer {
+  private codecs = new Map<string, SerializerCodec>();
+  /** Codecs in lookup order: most recently registered first */
+  private lookup: SerializerCodec[] = [];
+
+  constructor() {
+    for (const codec of builtinCodecs) this.codecs.set(codec.name, codec);
+    this.updateLookup();
+  }
+
+  /**
+   * Register a codec. Codecs registered later are tried first, so an app
+   * codec can take over values a built-in would otherwise handle.
+   */
+  register<T>(codec: SerializerCodec<T>): () => void {
+    if (codec.name === ESCAPED_OBJECT) {
+      throw new Error(`Codec name "${ESCAPED_OBJECT}" is reserved`);
+    }
+    this.codecs.delete(codec.name);
+    this.codecs.set(codec.name, codec as SerializerCodec);
+    this.updateLookup();
+    return () => this.unregister(codec.name);
+  }
+
+  unregister(name: string): void {
+    this.codecs.delete(name);
+    this.updateLookup();
+  }
+
+  has(name: string): boolean {
+    return this.codecs.has(name);
+  }
+
+  /** Whether a codec (built-in or registered) handles `value` */
+  handles(value: unknown): boolean {
+    return this.findCodec(value) !== undefined;
+  }
+
+  /** Turn a value into a JSON-safe tree of plain objects, arrays and primitives */
+  encode(value: unknown): unknown {
+    const codec = this.findCodec(value);
+    if (codec) {
+      return { [TYPE_KEY]: codec.name, value: this.encode(codec.encode(value)) };
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.encode(item));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        if (typeof item === 'function') continue;
+        result[key] = this.encode(item);
+      }
+      return TYPE_KEY in result ? { [TYPE_KEY]: ESCAPED_OBJECT, value: result } : result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Rebuild values from an encoded tree. Tags without a registered codec are
+   * left as they are, so data from another app survives a round-trip.
+   */
+  decode(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.decode(item));
+    }
+
+    if (isTagged(value)) {
+      const name = value[TYPE_KEY];
+      if (name === ESCAPED_OBJECT) return this.decodeObject(value.value as Record<string, unknown>);
+      const codec = this.codecs.get(name);
+      if (codec) return codec.decode(this.decode(value.value));
+      return this.decodeObject(value);
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return this.decodeObject(value as Record<string, unknown>);
+    }
+
+    return value;
+  }
+
+  /** JSON.stringify with non-JSON values encoded */
+  stringify(value: unknown, space?: number): string {
+    return JSON.stringify(this.encode(value), null, space);
+  }
+
+  /** JSON.parse with tagged values decoded */
+  parse<T = unknown>(json: string): T {
+    return this.decode(JSON.parse(json)) as T;
+  }
+
+  private decodeObject(obj: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(obj)) {
+      result[key] = this.decode(item);
+    }
+    return result;
+  }
+
+  private findCodec(value: unknown): SerializerCodec | undefined {
+    return this.lookup.find((codec) => codec.test(value));
+  }
+
+  private updateLookup(): void {
+    this.lookup = Array.from(this.codecs.values()).reverse();
+  }
+}
+
+/** Global serializer used by snapshots, the inspector and the preview runtime */
+export const serializer = new Serializer();
@@ -1,19 +1,37 @@
 import type { EnhancedStoreApi } from './types.js';
 import { registry } from './registry.js';
-import { deepClone } from './utils.js';
+import { StateValidationError, assertValidState, validateState } from './schema.js';
+import { getStoreVersions, migrateState } from './migrate.js';
+import { serializer } from './serializer.js';
+import { deepClone, separateStateAndActions } from './utils.js';
 
 export interface SnapshotData {
   version: 1;
   timestamp: number;
   stores: Record<string, Record<string, unknown>>;
+  /** Data version of each store when exported; missing entries are version 1 */
+  storeVersions?: Record<string, number>;
+}
+
+/**
+ * Replace a store's data with imported data, keeping its actions (snapshots
+ * carry data only). The timeline restarts at the imported state.
+ */
+function replaceData<T>(store: EnhancedStoreApi<T>, data: Record<string, unknown>): void {
+  const createTravels = (store as any).__createTravels;
+  if (createTravels) {
+    (store as any).__attachTravels(createTravels(deepClone(data)));
+  }
+  const { actions } = separateStateAndActions(store.getState() as Record<string, unknown>);
+  store.setState({ ...deepClone(data), ...actions } as T, true);
 }
 
 export const snapshot = {
   /**
-   * Export state from a single store.
+   * Export state from a single store (data only — no actions or computed values).
    */
   export<T>(store: EnhancedStoreApi<T>): Record<string, unknown> {
-    return deepClone(store.getState() as Record<string, unknown>);
+    return deepClone(separateStateAndActions(store.getState() as Record<string, unknown>).state);
   },
 
   /**
@@ -22,34 +40,48 @@ export const snapshot = {
   exportAll(): SnapshotData {
     const stores: Record<string, Record<string, unknown>> = {};
     for (const entry of registry.getAll()) {
-      stores[entry.name] = deepClone(entry.store.getState() as Record<string, unknown>);
+      stores[entry.name] = snapshot.export(entry.store);
     }
     return {
       version: 1,
       timestamp: Date.now(),
       stores,
+      storeVersions: getStoreVersions(),
     };
   },
 
   /**
-   * Import state into a single store.
+   * Import state into a single store. Actions are kept and the store's
+   * timeline starts over at the imported state.
+   * Throws a StateValidationError if the data fails the store schema.
    */
   import<T>(store: EnhancedStoreApi<T>, data: Record<string, unknown>): void {
-    store.setState(data as T, true);
+    assertValidState(store, data);
+    replaceData(store, data);
   },
 
   /**
-   * Import state into all stores from a snapshot.
+   * Import state into all stores from a snapshot. Data saved by an older
+   * store version is migrated first, then all stores are validated; if any
+   * fails nothing is imported.
    */
   importAll(data: SnapshotData): void {
     if (data.version !== 1) {
       throw new Error(`Unsupported snapshot version: ${data.version}`);
     }
-    for (const [name, storeData] of Object.entries(data.stores)) {
+
+    const targets = Object.entries(data.stores).flatMap(([name, raw]) => {
       const entry = registry.getByName(name);
-      if (entry) {
-        entry.store.setState(storeData, true);
-      }
+      if (!entry) return [];
+      const storeData = migrateState(entry.store, raw, data.storeVersions?.[name]);
+      return [{ entry, storeData }];
+    });
+
+    const issues = targets.flatMap(({ entry, storeData }) => validateState(entry.store, storeData));
+    if (issues.length > 0) throw new StateValidationError(issues);
+
+    for (const { entry, storeData } of targets) {
+      replaceData(entry.store, storeData);
     }
   },
 
@@ -57,8 +89,7 @@ export const snapshot = {
    * Download all stores' state as a JSON file (browser only).
    */
   downloadAll(filename = 'state-snapshot.json'): void {
-    const data = snapshot.exportAll();
-    const json = JSON.stringify(data, null, 2);
+    const json = snapshot.stringify();
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -86,7 +117,7 @@ export const snapshot = {
         const reader = new FileReader();
         reader.onload = () => {
           try {
-            const data = JSON.parse(reader.result as string) as SnapshotData;
+            const data = snapshot.parse(reader.result as string);
             snapshot.importAll(data);
             resolve(data);
           } catch (e) {
@@ -101,16 +132,17 @@ export const snapshot = {
   },
 
   /**
-   * Serialize snapshot to JSON string.
+   * Serialize snapshot to JSON string. Non-JSON values (Date, Map, ...) are
+   * written in the serializer's tagged encoding.
    */
   stringify(data?: SnapshotData): string {
-    return JSON.stringify(data ?? snapshot.exportAll(), null, 2);
+    return serializer.stringify(data ?? snapshot.exportAll(), 2);
   },
 
   /**
-   * Parse a JSON string into a SnapshotData object.
+   * Parse a JSON string into a SnapshotData object, restoring tagged values.
    */
   parse(json: string): SnapshotData {
-    return JSON.parse(json);
+    return serializer.parse<SnapshotData>(json);
   },
 };
@@ -0,0 +1,89 @@
+import type { PersistStorage, PersistedState } from './types.js';
+import { deepClone } from './utils.js';
+import { serializer } from './serializer.js';
+
+/**
+ * In-memory storage adapter. Data lives as long as the adapter instance —
+ * useful for tests and for sharing state between stores in one session.
+ */
+export function createMemoryStorage(): PersistStorage {
+  const data = new Map<string, PersistedState>();
+  return {
+    getItem: (key) => (data.has(key) ? deepClone(data.get(key)) : null),
+    setItem: (key, value) => {
+      data.set(key, deepClone(value));
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+}
+
+/**
+ * localStorage adapter (browser only). Values are stored as JSON under
+ * `${prefix}${key}`, with non-JSON values in the serializer's tagged encoding.
+ */
+export function createLocalStorage(prefix = 'state-sdk:'): PersistStorage {
+  return {
+    getItem(key) {
+      const raw = localStorage.getItem(prefix + key);
+      return raw === null ? null : serializer.parse<PersistedState>(raw);
+    },
+    setItem(key, value) {
+      localStorage.setItem(prefix + key, serializer.stringify(value));
+    },
+    removeItem(key) {
+      localStorage.removeItem(prefix + key);
+    },
+  };
+}
+
+/**
+ * IndexedDB adapter (browser only). Better suited than localStorage for
+ * long histories: no ~5MB quota and values are stored without JSON encoding.
+ */
+export function createIndexedDBStorage(
+  dbName = 'state-sdk',
+  storeName = 'persist'
+): PersistStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(dbName, 1);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(storeName);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return dbPromise;
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+      const req = action(db.transaction(storeName, mode).objectStore(storeName));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  return {
+    async getItem(key) {
+      const value = await run<unknown>('readonly', (store) => store.get(key));
+      return value ?? null;
+    },
+    async setItem(key, value) {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    async removeItem(key) {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { globalTimeline } from './globalTimeline.js';
+import type { TransactionStoreStep } from './types.js';
+import { generateId } from './utils.js';
+
+/**
+ * A middleware taking part in the active transaction. Participants are
+ * committed (or rolled back) in the order they joined, while the
+ * transaction is still active, so inner layers (timeline) settle before
+ * outer ones (inspector).
+ */
+export interface TransactionParticipant {
+  /** Finalize buffered changes; return the store step if history moved */
+  commit: () => TransactionStoreStep | void;
+  /** Discard buffered changes and restore the pre-transaction state */
+  rollback: () => void;
+}
+
+interface ActiveTransaction {
+  name: string;
+  participants: TransactionParticipant[];
+}
+
+let active: ActiveTransaction | null = null;
+
+/** The transaction currently running, if any (used by middlewares) */
+export function getActiveTransaction(): {
+  name: string;
+  join: (participant: TransactionParticipant) => void;
+} | null {
+  const tx = active;
+  if (!tx) return null;
+  return {
+    name: tx.name,
+    join: (participant) => { tx.participants.push(participant); },
+  };
+}
+
+/**
+ * Group set() calls across stores into one logical step.
+ *
+ * Every participating store records a single timeline step and a single
+ * inspector entry, and the transaction is added to `globalTimeline` so it
+ * can be undone across all stores at once. If `fn` throws, every store is
+ * rolled back and nothing is recorded. Nested calls join the outer
+ * transaction. `fn` must be synchronous.
+ *
+ * @example
+ * ```ts
+ * transaction(() => {
+ *   useCounterStore.getState().increment();
+ *   useTodoStore.getState().addTodo('Count went up');
+ * }, 'increment-and-log');
+ * ```
+ */
+export function transaction<R>(fn: () => R, name = 'transaction'): R {
+  if (active) return fn();
+
+  const tx: ActiveTransaction = { name, participants: [] };
+  active = tx;
+
+  let result: R;
+  try {
+    result = fn();
+    if (result && typeof (result as any).then === 'function') {
+      throw new Error('transaction() does not support async functions');
+    }
+  } catch (err) {
+    for (const participant of tx.participants) {
+      participant.rollback();
+    }
+    active = null;
+    throw err;
+  }
+
+  const stores: TransactionStoreStep[] = [];
+  try {
+    for (const participant of tx.participants) {
+      const step = participant.commit();
+      if (step) stores.push(step);
+    }
+  } finally {
+    active = null;
+  }
+
+  if (stores.length > 0) {
+    globalTimeline.record({
+      id: generateId(),
+      name,
+      timestamp: Date.now(),
+      stores,
+    });
+  }
+
+  return result;
+}
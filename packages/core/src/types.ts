@@ -18,13 +18,157 @@ export interface TimelineConfig {
   enabled?: boolean;
   /** Max history entries. Default: 100 */
   maxHistory?: number;
-  /** Auto archive every set() call. Default: true */
+  /**
+   * Auto archive every set() call. Default: true. When off, changes build up
+   * in one history entry until temporal.archive() (or the end of a
+   * temporal.batch()) closes it, and `coalesce` does not apply.
+   */
   autoArchive?: boolean;
+  /**
+   * Only record these paths in history (key names, dotted paths like
+   * `user.name` or JSON Pointers like `/user/name`). Default: everything
+   */
+  track?: string[];
+  /**
+   * Never record these paths in history. Changes confined to them update
+   * the store without an undo step, and undo/redo leaves them alone.
+   */
+  ignore?: string[];
+  /** Merge consecutive set() calls into one history entry (needs autoArchive). Default: off */
+  coalesce?: CoalesceConfig;
+}
+
+/** A set() call as seen by coalescing policies */
+export interface CoalesceInfo {
+  /**
+   * The action that made the change, as the inspector logs it
+   * (`store/action`). A set() outside any action carries the updater's
+   * function name instead.
+   */
+  actionName: string;
+  timestamp: number;
+  /** Id of the action call that made the change, if it ran inside one */
+  correlationId?: string;
+}
+
+export interface CoalesceConfig {
+  /**
+   * Merge a set() into the previous entry when it has the same action name
+   * and happens within this many ms of the previous set()
+   */
+  windowMs?: number;
+  /**
+   * Only coalesce these actions by window, named `store/action` or just by
+   * the action (`increment`). Default: all
+   */
+  actions?: string[];
+  /** Custom policy: return true to merge `next` into the entry holding `prev` */
+  shouldMerge?: (prev: CoalesceInfo, next: CoalesceInfo) => boolean;
 }
 
 export interface BranchingConfig {
   /** Enable state branching. Default: true */
   enabled?: boolean;
+  /** Default `arrayKey` for branch.diff() */
+  arrayKey?: DiffOptions['arrayKey'];
+  /**
+   * Called before branch.switch(). Return `false` to cancel the switch, or a
+   * promise to decide later (branch.switch() then returns a promise).
+   */
+  onBeforeSwitch?: (from: BranchData, to: BranchData) => boolean | void | Promise<boolean | void>;
+  /** Called once the store shows the new branch */
+  onAfterSwitch?: (from: BranchData, to: BranchData) => void;
+  /** Called after a branch is forked from `parent` */
+  onFork?: (branch: BranchData, parent: BranchData) => void;
+  /** Called after a branch is deleted */
+  onDelete?: (branch: BranchData) => void;
+}
+
+export interface PersistConfig {
+  /** Enable persistence. Default: true when a config object is given */
+  enabled?: boolean;
+  /** Storage key. Default: store name */
+  key?: string;
+  /** Storage adapter. Default: localStorage when available, else in-memory */
+  storage?: PersistStorage;
+  /** Schema version of the persisted data. Default: 1 */
+  version?: number;
+  /** Upgrade data saved with an older version to the current shape */
+  migrate?: (
+    persisted: any,
+    fromVersion: number
+  ) => PersistedState | Promise<PersistedState>;
+  /** Delay before writing after a change, in ms. Default: 0 */
+  debounceMs?: number;
+  /**
+   * Called when an automatic save or the initial load fails (storage or
+   * migrate threw). Default: logs with console.error. flush() and
+   * rehydrate() reject instead.
+   */
+  onError?: (error: unknown, operation: 'save' | 'load') => void;
+}
+
+/**
+ * Derived values by key. Each function receives the data state and is
+ * rerun only when a data key it read changes.
+ */
+export type ComputedConfig = Record<string, (state: any) => unknown>;
+
+/**
+ * Upgrade store data written at `fromVersion` to the current shape. Called
+ * once with the old data; handle every older version it may receive.
+ */
+export type StoreMigrate = (
+  oldState: any,
+  fromVersion: number
+) => Record<string, unknown>;
+
+/**
+ * Encodes one kind of non-JSON value for the serializer. `encode` returns a
+ * payload that may itself contain non-JSON values; they are encoded too.
+ */
+export interface SerializerCodec<T = any> {
+  /** Written as the `$type` tag; must be unique */
+  name: string;
+  test: (value: unknown) => boolean;
+  encode: (value: T) => unknown;
+  decode: (data: any) => T;
+}
+
+export interface AsyncActionOptions {
+  /** Undo the whole action (every set() until it settles) as one step. Default: the store setting */
+  singleUndo?: boolean;
+}
+
+export interface AsyncActionsConfig {
+  /** Treat actions that return a promise as async flows. Default: true */
+  autoDetect?: boolean;
+  /** Record each action call, including a whole async flow, as a single undo step. Default: false */
+  singleUndo?: boolean;
+}
+
+/** Any validator with a zod-like `safeParse` and/or `parse` method */
+export interface StateSchema {
+  safeParse?: (data: unknown) => { success: true } | { success: false; error: unknown };
+  parse?: (data: unknown) => unknown;
+}
+
+/** One rejected path, as reported by schema validation */
+export interface SchemaIssue {
+  storeName: string;
+  /** Path inside the store's data state; empty for the whole state */
+  path: Array<string | number>;
+  message: string;
+}
+
+export interface ValidationConfig {
+  schema?: StateSchema;
+  validateOnSet?: boolean;
+}
+
+export interface DevtoolsConfig {
+  /** Instance name shown in the Redux DevTools extension. Default: store name */
+  name?: string;
 }
 
 export interface StoreConfig {
@@ -34,14 +178,41 @@ export interface StoreConfig {
   timeline?: TimelineConfig | boolean;
   /** Branching config */
   branching?: BranchingConfig | boolean;
-  /** Enable Redux DevTools integration */
+  /** Persist branches and timeline across reloads. Default: false */
+  persist?: PersistConfig | boolean;
+  /** Enable Redux DevTools integration (when the extension is installed) */
   devtools?: boolean;
+  /** Record action calls for replay. Default: false */
+  recorder?: RecorderConfig | boolean;
+  /** Derived values kept in the store but out of history and snapshots */
+  computed?: ComputedConfig;
+  /** Validate data on snapshot import and mock injection */
+  schema?: StateSchema;
+  /** Also validate every set(); invalid updates throw and are not applied. Default: false */
+  validateOnSet?: boolean;
+  /** Version of the store's data shape, recorded in snapshots and scenes. Default: 1 */
+  version?: number;
+  /** Upgrade snapshot/scene data written by an older version */
+  migrate?: StoreMigrate;
+  /** How action calls and async flows are tracked */
+  asyncActions?: AsyncActionsConfig;
+  /** Inspector log retention and persistence */
+  inspector?: InspectorConfig;
 }
 
 // ============================================
 // Timeline Types (powered by travels)
 // ============================================
 
+/** A named position on the timeline */
+export interface TimelineMark {
+  label: string;
+  position: number;
+  /** Branch the mark was set on, null when branching is disabled */
+  branchId: string | null;
+  createdAt: number;
+}
+
 export interface TemporalApi<T = unknown> {
   /** Undo N steps (default 1) */
   back: (steps?: number) => void;
@@ -61,6 +232,23 @@ export interface TemporalApi<T = unknown> {
   getHistory: () => readonly T[];
   /** Get the raw patches */
   readonly patches: TravelPatches;
+  /** Run `fn` and record every set() it makes as a single history entry */
+  batch: (fn: () => void) => void;
+  /**
+   * Close the current history entry. Records pending changes as one step
+   * when autoArchive is off; otherwise keeps the next set() from being
+   * coalesced into the last entry.
+   */
+  archive: () => void;
+  /** Bookmark the current position under `label` (replaces an existing mark) */
+  mark: (label: string) => TimelineMark;
+  /**
+   * Jump back to a bookmarked position, switching branch if needed. Returns
+   * a promise when an async onBeforeSwitch hook decides the switch.
+   */
+  goToMark: (label: string) => void | Promise<void>;
+  /** All bookmarks, oldest first */
+  listMarks: () => TimelineMark[];
   /** Subscribe to timeline changes */
   subscribe: (listener: () => void) => () => void;
 }
@@ -82,22 +270,193 @@ export interface BranchData {
   patches: TravelPatches;
   currentPosition: number;
   createdAt: number;
+  /** Timeline options overriding the store's TimelineConfig on this branch */
+  timeline?: BranchTimelineOptions;
+}
+
+/** Timeline settings a branch can override; the rest come from the store's TimelineConfig */
+export type BranchTimelineOptions = Omit<TimelineConfig, 'enabled'>;
+
+export interface ForkOptions {
+  /** Override the timeline config on the new branch. Default: the parent branch's */
+  timeline?: BranchTimelineOptions;
 }
 
+/**
+ * Differences between two states. Array items are addressed by index: in
+ * the second state for added, changed and moved items, in the first for
+ * removed ones.
+ */
 export interface BranchDiffResult {
   added: Array<{ path: string[]; value: unknown }>;
   removed: Array<{ path: string[]; value: unknown }>;
   changed: Array<{ path: string[]; from: unknown; to: unknown }>;
+  /** Keyed array items that changed order (see DiffOptions.arrayKey) */
+  moved: Array<{ path: string[]; from: number; to: number }>;
+}
+
+export interface DiffOptions {
+  /**
+   * Match array items by identity instead of by index: the name of a key
+   * (such as `id`) or a function returning an item's key. Arrays whose
+   * items do not all have distinct keys are compared by index.
+   */
+  arrayKey?: string | ((item: unknown, path: string[]) => unknown);
+}
+
+/** An RFC 6902 JSON Patch operation (paths are JSON Pointers) */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string };
+
+export interface ApplyDiffOptions {
+  /** Only apply changes at or under these paths (`user`, `user.name` or `/user/name`). Default: all */
+  paths?: string[];
+}
+
+export interface BranchDiffOptions extends DiffOptions {
+  /** `changes` (default) for a BranchDiffResult, `json-patch` for RFC 6902 operations */
+  format?: 'changes' | 'json-patch';
+}
+
+export type MergeStrategy = 'manual' | 'ours' | 'theirs';
+
+export interface MergeOptions {
+  /**
+   * How to resolve conflicting paths. Default: 'manual'
+   * - manual: keep the target's value and report the conflict
+   * - ours: keep the target's value
+   * - theirs: take the source's value
+   */
+  strategy?: MergeStrategy;
+}
+
+/** A single change applied to the target state by a merge */
+export interface MergeChange {
+  op: 'set' | 'remove';
+  path: string[];
+  value?: unknown;
+}
+
+/** A path changed differently on both branches since the fork */
+export interface MergeConflict {
+  path: string[];
+  /** Value in the common ancestor state */
+  base: unknown;
+  /** Value on the target branch */
+  ours: unknown;
+  /** Value on the source branch */
+  theirs: unknown;
+}
+
+export interface MergeResult {
+  strategy: MergeStrategy;
+  /** Changes recorded on the target branch (as a single timeline step) */
+  applied: MergeChange[];
+  /** Conflicting paths; resolved automatically unless strategy is 'manual' */
+  conflicts: MergeConflict[];
+}
+
+/** A replayed step (cherry-pick or rebase) that could not be applied */
+export interface CherryPickFailure {
+  /** Position of the step on the source branch */
+  position: number;
+  /** First patch path that does not exist on the active branch */
+  path: Array<string | number>;
+  /** The step's forward patches */
+  patches: Patches;
+}
+
+export interface CherryPickResult {
+  /** Source positions applied, each as its own step on the active branch */
+  picked: number[];
+  failed: CherryPickFailure[];
+}
+
+export interface RebaseResult {
+  /** The branch's new fork point on the target branch */
+  forkPoint: number;
+  /** Positions (before the rebase) of the steps replayed onto the target */
+  replayed: number[];
+  /** Steps that no longer apply; they are dropped from the branch */
+  failed: CherryPickFailure[];
+}
+
+/** A branch and the branches forked from it */
+export interface BranchTreeNode {
+  id: string;
+  name: string;
+  /** Position on the parent's timeline the branch was forked at */
+  forkPoint: number;
+  /** Steps recorded on the branch */
+  length: number;
+  currentPosition: number;
+  active: boolean;
+  createdAt: number;
+  /** Forked branches, ordered by fork point, then creation time */
+  children: BranchTreeNode[];
+}
+
+/** The closest branch two branches descend from */
+export interface CommonAncestor {
+  branch: BranchData;
+  /** Position on `branch` where the two lines of history part */
+  position: number;
 }
 
 export interface BranchApi {
-  fork: (name?: string) => BranchData;
-  switch: (branchId: string) => void;
+  fork: (name?: string, options?: ForkOptions) => BranchData;
+  /**
+   * Make a branch the active one. Returns whether it switched (false when
+   * onBeforeSwitch cancels), as a promise if the hook returned one.
+   */
+  switch: (branchId: string) => boolean | Promise<boolean>;
   list: () => BranchData[];
   active: () => BranchData;
-  diff: (branchIdA: string, branchIdB: string) => BranchDiffResult;
+  /** Compare two branches' current states; JSON Patch output turns A into B */
+  diff: {
+    (branchIdA: string, branchIdB: string, options?: BranchDiffOptions & { format?: 'changes' }): BranchDiffResult;
+    (branchIdA: string, branchIdB: string, options: BranchDiffOptions & { format: 'json-patch' }): JsonPatchOperation[];
+  };
   delete: (branchId: string) => void;
   rename: (branchId: string, newName: string) => void;
+  /** Three-way merge the source branch into the target branch, from the state they last shared */
+  merge: (sourceId: string, targetId: string, options?: MergeOptions) => MergeResult;
+  /**
+   * Replay selected steps of another branch onto the active branch.
+   * Position N is the step that moved the source from N-1 to N.
+   */
+  cherryPick: (sourceBranchId: string, positions: number[]) => CherryPickResult;
+  /**
+   * Move a branch onto the current state of another branch: its steps are
+   * replayed there and it becomes a child of that branch at its current
+   * position. The branch's history is rebuilt; its undo position is kept.
+   */
+  rebase: (branchId: string, ontoBranchId: string) => RebaseResult;
+  /**
+   * Apply a diff from branch.diff() (either format) to a branch as a single
+   * undoable step, optionally only some of its paths. Returns the operations
+   * applied. Throws, changing nothing, if an operation does not fit the branch.
+   * Reordered keyed array items can only be applied from JSON Patch output.
+   */
+  applyDiff: (
+    diff: BranchDiffResult | JsonPatchOperation[],
+    targetBranchId: string,
+    options?: ApplyDiffOptions
+  ) => JsonPatchOperation[];
+  /**
+   * All branches as a tree. Returns the roots: `main`, plus any branch
+   * whose parent was deleted.
+   */
+  tree: () => BranchTreeNode[];
+  /** Parent, grandparent, ... of a branch, nearest first */
+  ancestors: (branchId: string) => BranchData[];
+  /** Closest branch both descend from (either may be it); null if unrelated */
+  commonAncestor: (branchIdA: string, branchIdB: string) => CommonAncestor | null;
+  /** Every branch forked from a branch, directly or not, depth-first */
+  descendants: (branchId: string) => BranchData[];
   subscribe: (listener: () => void) => () => void;
 }
 
@@ -110,12 +469,251 @@ export interface ActionLogEntry {
   timestamp: number;
   actionName: string;
   patches: Patches;
+  /** Store timeline position after this change */
+  position?: number;
+  /** Branch the position belongs to, when the store has branching */
+  branchId?: string;
+  /** Arguments of the action call that made the change */
+  args?: unknown[];
+  /** Action calls leading to the change, outermost first (`store/action`) */
+  callStack?: string[];
+  /** Links all entries of one action call, including an async flow's lifecycle */
+  correlationId?: string;
+  /** Lifecycle entry of an async action; absent for set() entries */
+  phase?: 'start' | 'success' | 'error';
+  /** Rejection message of a failed async action */
+  error?: string;
+  /** Time the set() took in ms, including synchronous subscriber calls */
+  duration?: number;
+  /** Store subscribers notified by the change */
+  subscribers?: number;
+  /** Serialized size of `patches` in bytes */
+  patchBytes?: number;
+}
+
+/** Profiling data of one action name, aggregated over the log */
+export interface ActionProfile {
+  actionName: string;
+  /** Logged set() entries */
+  count: number;
+  /** Durations in ms */
+  totalDuration: number;
+  avgDuration: number;
+  maxDuration: number;
+  /** Subscriber notifications, summed over all entries */
+  notifications: number;
+  patchCount: number;
+  patchBytes: number;
+}
+
+export interface InspectorStats {
+  /** Logged set() entries (async lifecycle entries are not counted) */
+  count: number;
+  totalDuration: number;
+  notifications: number;
+  patchBytes: number;
+  /** Per action name, highest total duration first */
+  actions: ActionProfile[];
+}
+
+/** Web Storage-like adapter for the inspector log (sessionStorage, localStorage) */
+export interface InspectorStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+export interface InspectorConfig {
+  /** Max log entries kept; the oldest are dropped first. Default: 200 */
+  maxEntries?: number;
+  /** Max serialized size of the log in bytes. Default: no limit */
+  maxBytes?: number;
+  /** Drop entries older than this many ms. Default: no limit */
+  maxAge?: number;
+  /** Keep the log across page reloads. Default: false */
+  persist?: boolean;
+  /** Where a persisted log is kept, as `state-sdk:inspector:<store name>`. Default: sessionStorage */
+  storage?: InspectorStorage;
+}
+
+/**
+ * An exported inspector log, self-contained enough to be attached to a bug
+ * report and loaded into another DevPanel. `initialState` is the data state
+ * before the first entry; each entry's patches describe its change.
+ *
+ * Written as JSON with `serializer.stringify()` (so Dates, Maps, ... survive):
+ * ```json
+ * {
+ *   "format": "state-sdk/inspector-session",
+ *   "version": 1,
+ *   "exportedAt": 1718000000000,
+ *   "store": { "id": "lx3k_0", "name": "counter", "version": 1 },
+ *   "initialState": { "count": 0 },
+ *   "entries": [{ "id": "…", "timestamp": 1718000000000, "actionName": "counter/increment", "patches": [...] }]
+ * }
+ * ```
+ */
+export interface InspectorSession {
+  format: 'state-sdk/inspector-session';
+  version: 1;
+  exportedAt: number;
+  /** The store the log was recorded on; `version` is its data version */
+  store: { id: string; name: string; version: number };
+  /** Data state before the first entry */
+  initialState: Record<string, unknown>;
+  entries: ActionLogEntry[];
+}
+
+/** Criteria for inspector.query(); an entry must match all that are given */
+export interface InspectorQuery {
+  /** Names containing this text (case-insensitive), or matching this RegExp */
+  actionName?: string | RegExp;
+  /** Changes at or under this path (`user`, `user.name` or `/user/name`) */
+  pathPrefix?: string;
+  /** Entries logged at or after this timestamp */
+  since?: number;
+  /** Entries logged at or before this timestamp */
+  until?: number;
+  /** Entries of these stores only */
+  storeIds?: string[];
 }
 
 export interface InspectorApi {
   getActionLog: () => ActionLogEntry[];
+  /** Log entries matching `filter`, oldest first */
+  query: (filter: InspectorQuery) => ActionLogEntry[];
+  /** Profiling aggregates of the log (or of the entries matching `filter`) */
+  stats: (filter?: InspectorQuery) => InspectorStats;
   clear: () => void;
   subscribe: (listener: (entry: ActionLogEntry) => void) => () => void;
+  /** Export the log with its starting state and store metadata */
+  export: () => InspectorSession;
+  /**
+   * Replace the log with an exported session (object or JSON text). The
+   * store's state is left as it is. Throws if the session is for another store.
+   */
+  import: (session: InspectorSession | string) => void;
+}
+
+// ============================================
+// Recorder Types
+// ============================================
+
+export interface RecorderConfig {
+  /** Enable the recorder API. Default: true when a config object is given */
+  enabled?: boolean;
+  /** Start recording as soon as the store is created. Default: false */
+  autoStart?: boolean;
+}
+
+/** One call made through a store action function */
+export interface RecordedCall {
+  actionName: string;
+  /** Arguments in the serializer's tagged JSON encoding */
+  args: unknown[];
+  /** False when the arguments could not be serialized; such calls cannot be replayed */
+  serializable: boolean;
+  timestamp: number;
+  /** Patches the call produced on the data state */
+  patches: Patches;
+}
+
+export interface Recording {
+  storeName: string;
+  startedAt: number;
+  /** Data state when recording started; replay starts from here */
+  initialState: Record<string, unknown>;
+  calls: RecordedCall[];
+}
+
+export interface ReplayOptions {
+  /** Playback speed relative to the recording (2 = twice as fast). Default: Infinity (no delays) */
+  speed?: number;
+  /** Stop after this many calls. Default: all */
+  stopAt?: number;
+}
+
+export interface ReplayStep {
+  index: number;
+  actionName: string;
+  /** Patches the call produced during replay */
+  patches: Patches;
+}
+
+export interface ReplayResult {
+  /** Number of calls replayed */
+  replayed: number;
+  steps: ReplayStep[];
+}
+
+/** A replayed call whose resulting state differs from the recording */
+export interface ReplayMismatch {
+  index: number;
+  actionName: string;
+  expected: Patches;
+  actual: Patches;
+}
+
+export interface VerifyResult {
+  ok: boolean;
+  replayed: number;
+  mismatches: ReplayMismatch[];
+}
+
+export interface RecorderApi {
+  /** Start a new recording from the current state */
+  start: () => void;
+  /** Stop recording and return what was captured */
+  stop: () => Recording;
+  /** Whether calls are being recorded */
+  readonly isRecording: boolean;
+  /** Reset the store to the recording's initial state and re-run its calls */
+  replay: (recording: Recording, options?: ReplayOptions) => Promise<ReplayResult>;
+  /** Replay and compare each resulting state with the recorded patches */
+  verify: (recording: Recording, options?: ReplayOptions) => Promise<VerifyResult>;
+}
+
+// ============================================
+// Persistence Types
+// ============================================
+
+export interface PersistedBranches {
+  activeBranchId: string;
+  branches: BranchData[];
+}
+
+/** Shape written to storage (schema is versioned via PersistConfig.version) */
+export interface PersistedState {
+  version: number;
+  /** The store's data (no actions or computed values), including untracked paths */
+  state: Record<string, unknown>;
+  /** Undo history ending at `state`; null when the timeline is disabled */
+  timeline: {
+    patches: TravelPatches;
+    position: number;
+  } | null;
+  /** Null when branching is disabled */
+  branching: PersistedBranches | null;
+}
+
+/** Storage adapter. Sync and async (Promise-returning) adapters are both supported. */
+export interface PersistStorage {
+  getItem: (key: string) => unknown | Promise<unknown>;
+  setItem: (key: string, value: PersistedState) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface PersistApi {
+  /** Reload persisted data into the store */
+  rehydrate: () => Promise<void>;
+  /** Write pending changes immediately */
+  flush: () => Promise<void>;
+  /** Remove persisted data from storage */
+  clear: () => Promise<void>;
+  /** Whether the initial rehydration has finished */
+  hasHydrated: () => boolean;
+  /** Resolves once the latest rehydration has finished */
+  whenHydrated: () => Promise<void>;
 }
 
 // ============================================
@@ -126,6 +724,8 @@ export interface EnhancedStoreApi<T> extends StoreApi<T> {
   temporal: TemporalApi<T>;
   branch: BranchApi;
   inspector: InspectorApi;
+  persist: PersistApi;
+  recorder: RecorderApi;
   __name: string;
   __id: string;
 }
@@ -141,14 +741,51 @@ export interface StoreRegistryEntry {
   createdAt: number;
 }
 
+// ============================================
+// Transaction Types
+// ============================================
+
+/** How one store's timeline moved during a transaction */
+export interface TransactionStoreStep {
+  storeId: string;
+  /** Timeline position before the transaction */
+  from: number;
+  /** Timeline position after the transaction */
+  to: number;
+  /** Branch both positions belong to, when the store has branching */
+  branchId?: string;
+}
+
+/** An inspector log entry in the registry-wide merged history */
+export interface GlobalHistoryEntry extends ActionLogEntry {
+  storeId: string;
+  storeName: string;
+}
+
+export interface TransactionRecord {
+  id: string;
+  name: string;
+  timestamp: number;
+  stores: TransactionStoreStep[];
+}
+
 // ============================================
 // Bridge / Transport Types
 // ============================================
 
+/**
+ * Branch events carry `{ branches, activeBranchId }`. Every branch change
+ * emits `branch:update`; a fork, switch or delete then also emits its own
+ * event with, for `branch:fork`, `{ branchId, parentBranchId }`; for
+ * `branch:switch`, `{ from, to }`; for `branch:delete`, `{ branchId }`.
+ */
 export type BridgeEventType =
   | 'state:update'
   | 'timeline:update'
   | 'branch:update'
+  | 'branch:fork'
+  | 'branch:switch'
+  | 'branch:delete'
   | 'action:log'
   | 'store:register'
   | 'store:unregister';
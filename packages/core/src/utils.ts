@@ -1,3 +1,6 @@
+import { create as mutativeCreate, type Patches } from 'mutative';
+import type { MergeChange, MergeConflict } from './types.js';
+
 let counter = 0;
 
 /** Generate a simple unique ID */
@@ -22,17 +25,81 @@ export function extractActionName(partial: unknown): string {
   return 'set()';
 }
 
+/** Object literal or array, as opposed to class instances (Date, Map, ...) */
+export function isStructural(value: unknown): value is Record<string, any> {
+  if (Array.isArray(value)) return true;
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Write the changes from `prev` to `next` into `draft`, descending into
+ * objects and same-length arrays so patches point at what actually changed.
+ */
+function assignChanges(draft: any, prev: Record<string, any>, next: Record<string, any>, top: boolean) {
+  for (const key of Object.keys(next)) {
+    const from = prev[key];
+    const to = next[key];
+    if (Object.is(from, to)) continue;
+    const descend =
+      isStructural(from) &&
+      isStructural(to) &&
+      Array.isArray(from) === Array.isArray(to) &&
+      (!Array.isArray(from) || from.length === to.length);
+    if (descend) assignChanges(draft[key], from, to, false);
+    else draft[key] = to;
+  }
+  // Top-level keys missing from `next` are actions, not removed data
+  if (top || Array.isArray(next)) return;
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) delete draft[key];
+  }
+}
+
+/** Generate patches between two states via mutative (functions and computed values are skipped) */
+export function diffPatches(prevState: unknown, nextState: unknown): Patches {
+  try {
+    const [, p] = mutativeCreate(
+      prevState as object,
+      (draft: any) => {
+        const next = separateStateAndActions(nextState as Record<string, any>).state;
+        assignChanges(draft, prevState as Record<string, any>, next, true);
+      },
+      { enablePatches: true }
+    ) as [unknown, Patches, Patches];
+    return p;
+  } catch {
+    // Fallback: no patches if mutative fails
+    return [];
+  }
+}
+
+/**
+ * Non-enumerable marker listing the computed keys of a store state object.
+ * Set by the computed middleware on every state it produces.
+ */
+export const COMPUTED_KEYS = Symbol('computedKeys');
+
+/** Keys of `obj` that hold computed (derived) values */
+export function getComputedKeys(obj: unknown): readonly string[] {
+  return (obj as any)?.[COMPUTED_KEYS] ?? [];
+}
+
 /**
  * Separate state data from action functions.
  * Pattern from zustand-travel: only data gets tracked, functions are preserved.
+ * Computed values belong to neither and are left out.
  */
 export function separateStateAndActions<T extends Record<string, any>>(
   obj: T
 ): { state: Partial<T>; actions: Partial<T> } {
   const state: Partial<T> = {};
   const actions: Partial<T> = {};
+  const computed = getComputedKeys(obj);
 
   for (const key in obj) {
+    if (computed.includes(key)) continue;
     if (typeof obj[key] === 'function') {
       actions[key] = obj[key];
     } else {
@@ -43,53 +110,151 @@ export function separateStateAndActions<T extends Record<string, any>>(
   return { state, actions };
 }
 
-/** Deep diff two plain objects, returning paths of differences */
-export function deepDiff(
-  objA: Record<string, unknown>,
-  objB: Record<string, unknown>,
+/** Check whether a value is a plain (non-array) object */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Structural equality for JSON-like values */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    const arrB = b as unknown[];
+    return a.length === arrB.length && a.every((item, i) => deepEqual(item, arrB[i]));
+  }
+
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  const keysA = Object.keys(objA);
+  if (keysA.length !== Object.keys(objB).length) return false;
+  return keysA.every((key) => key in objB && deepEqual(objA[key], objB[key]));
+}
+
+/** Write a value at a path, creating intermediate objects as needed */
+export function setIn(target: Record<string, any>, path: string[], value: unknown): void {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/** Delete the value at a path (no-op if any parent is missing) */
+export function deleteIn(target: Record<string, any>, path: string[]): void {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) return;
+    node = node[key];
+  }
+  delete node[path[path.length - 1]];
+}
+
+/**
+ * Three-way merge of plain objects.
+ *
+ * Compares `ours` (target) and `theirs` (source) against their common
+ * ancestor `base`. Changes made on only one side are taken; paths changed
+ * differently on both sides are reported as conflicts. Plain objects are
+ * merged key by key, anything else (including arrays) is compared as a
+ * whole value. Missing keys are reported as `undefined`.
+ *
+ * Returns the changes that must be applied to `ours` to include `theirs`.
+ */
+export function threeWayMerge(
+  base: Record<string, unknown>,
+  ours: Record<string, unknown>,
+  theirs: Record<string, unknown>,
   parentPath: string[] = []
-): {
-  added: Array<{ path: string[]; value: unknown }>;
-  removed: Array<{ path: string[]; value: unknown }>;
-  changed: Array<{ path: string[]; from: unknown; to: unknown }>;
-} {
-  const added: Array<{ path: string[]; value: unknown }> = [];
-  const removed: Array<{ path: string[]; value: unknown }> = [];
-  const changed: Array<{ path: string[]; from: unknown; to: unknown }> = [];
+): { changes: MergeChange[]; conflicts: MergeConflict[] } {
+  const changes: MergeChange[] = [];
+  const conflicts: MergeConflict[] = [];
 
-  const allKeys = new Set([...Object.keys(objA), ...Object.keys(objB)]);
+  const allKeys = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]);
 
   for (const key of allKeys) {
     const path = [...parentPath, key];
-    const inA = key in objA;
-    const inB = key in objB;
-    const valA = objA[key];
-    const valB = objB[key];
-
-    if (!inA && inB) {
-      added.push({ path, value: valB });
-    } else if (inA && !inB) {
-      removed.push({ path, value: valA });
-    } else if (
-      typeof valA === 'object' &&
-      valA !== null &&
-      typeof valB === 'object' &&
-      valB !== null &&
-      !Array.isArray(valA) &&
-      !Array.isArray(valB)
-    ) {
-      const nested = deepDiff(
-        valA as Record<string, unknown>,
-        valB as Record<string, unknown>,
-        path
+    const inOurs = key in ours;
+    const inTheirs = key in theirs;
+    const valBase = base[key];
+    const valOurs = ours[key];
+    const valTheirs = theirs[key];
+
+    // Same result on both sides (including both unchanged)
+    if (inOurs === inTheirs && deepEqual(valOurs, valTheirs)) continue;
+
+    const inBase = key in base;
+    const theirsChanged = inBase !== inTheirs || !deepEqual(valBase, valTheirs);
+    const oursChanged = inBase !== inOurs || !deepEqual(valBase, valOurs);
+
+    if (!theirsChanged) continue;
+
+    if (!oursChanged) {
+      changes.push(
+        inTheirs
+          ? { op: 'set', path, value: valTheirs }
+          : { op: 'remove', path }
       );
-      added.push(...nested.added);
-      removed.push(...nested.removed);
-      changed.push(...nested.changed);
-    } else if (!Object.is(valA, valB)) {
-      changed.push({ path, from: valA, to: valB });
+    } else if (isPlainObject(valBase) && isPlainObject(valOurs) && isPlainObject(valTheirs)) {
+      const nested = threeWayMerge(valBase, valOurs, valTheirs, path);
+      changes.push(...nested.changes);
+      conflicts.push(...nested.conflicts);
+    } else {
+      conflicts.push({ path, base: valBase, ours: valOurs, theirs: valTheirs });
+    }
+  }
+
+  return { changes, conflicts };
+}
+
+/**
+ * Find the first patch whose target path cannot be resolved on `state`.
+ *
+ * Patches are checked in order against a simulated state so that later
+ * patches may depend on earlier ones (e.g. add a parent, then set a child).
+ * Returns the unresolved path, or null when every patch can be applied.
+ */
+export function findUnresolvablePatch(
+  state: unknown,
+  patches: Patches
+): Array<string | number> | null {
+  let working: unknown = deepClone(state);
+
+  for (const patch of patches) {
+    const path = patch.path as Array<string | number>;
+    if (path.length === 0) {
+      working = patch.value;
+      continue;
+    }
+
+    let parent: any = working;
+    for (let i = 0; i < path.length - 1; i++) {
+      parent = typeof parent === 'object' && parent !== null ? parent[path[i]] : undefined;
+      if (typeof parent !== 'object' || parent === null) {
+        return path.slice(0, i + 1);
+      }
+    }
+
+    const key = path[path.length - 1];
+    if (typeof parent !== 'object' || parent === null) return path;
+    if (patch.op !== 'add' && !(key in parent)) return path;
+
+    if (patch.op === 'remove') {
+      if (Array.isArray(parent)) parent.splice(Number(key), 1);
+      else delete parent[key];
+    } else if (patch.op === 'add' && Array.isArray(parent)) {
+      parent.splice(key === '-' ? parent.length : Number(key), 0, deepClone(patch.value));
+    } else {
+      parent[key] = deepClone(patch.value);
     }
   }
 
-  return { added, removed, changed };
+  return null;
 }
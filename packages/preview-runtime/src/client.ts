@@ -1,4 +1,13 @@
-import { registry, mock, bridge } from '@vibe-stack/state-sdk';
+import {
+  registry,
+  mock,
+  bridge,
+  validateState,
+  StateValidationError,
+  getStoreVersions,
+  migrateStores,
+  serializer,
+} from '@vibe-stack/state-sdk';
 import type { PreviewClientOptions, HostMessage } from './types.js';
 import {
   createHelloMessage,
@@ -50,15 +59,13 @@ export function initPreviewClient(options?: PreviewClientOptions): () => void {
     return allowedOrigins.includes(origin);
   }
 
-  /** Strip functions from state (not serializable via postMessage structured clone) */
+  /**
+   * Encode state for the host: functions are dropped and non-JSON values
+   * (Date, Map, ...) use the serializer's tagged encoding, so the host can
+   * forward it over WebSocket or write it to scene files as plain JSON.
+   */
   function serializableState(state: Record<string, unknown>): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(state)) {
-      if (typeof value !== 'function') {
-        result[key] = value;
-      }
-    }
-    return result;
+    return serializer.encode(state) as Record<string, unknown>;
   }
 
   function getCurrentStoresState(): Record<string, Record<string, unknown>> {
@@ -90,7 +97,7 @@ export function initPreviewClient(options?: PreviewClientOptions): () => void {
         postToHost(
           createStateUpdateMessage(
             entry.name,
-            entry.store.getState() as Record<string, unknown>,
+            serializableState(entry.store.getState() as Record<string, unknown>),
           ),
         );
       };
@@ -133,22 +140,31 @@ export function initPreviewClient(options?: PreviewClientOptions): () => void {
     switch (hostMsg.type) {
       case 'inject': {
         try {
+          const { storeVersions } = hostMsg.payload;
+          const stores = serializer.decode(hostMsg.payload.stores) as Record<string, Record<string, unknown>>;
           if (hostMsg.payload.mode === 'replace') {
-            for (const [name, storeData] of Object.entries(hostMsg.payload.stores)) {
+            // Migrate and validate every store first so a rejected store leaves all untouched
+            const migrated = migrateStores(stores, storeVersions);
+            const targets = Object.entries(migrated).flatMap(([name, storeData]) => {
               const entry = registry.getByName(name);
-              if (entry) {
-                mock.replace(entry.store, storeData);
-              }
+              return entry ? [{ entry, storeData }] : [];
+            });
+            const issues = targets.flatMap(({ entry, storeData }) => validateState(entry.store, storeData));
+            if (issues.length > 0) throw new StateValidationError(issues);
+
+            for (const { entry, storeData } of targets) {
+              mock.replace(entry.store, storeData);
             }
           } else {
-            mock.injectAll(hostMsg.payload.stores);
+            mock.injectAll(stores, storeVersions);
           }
           postToHost(
             createAppliedMessage(hostMsg.id, true, undefined, getCurrentStoresState()),
           );
         } catch (err: unknown) {
           const message = err instanceof Error ? err.message : String(err);
-          postToHost(createAppliedMessage(hostMsg.id, false, message));
+          const issues = err instanceof StateValidationError ? err.issues : undefined;
+          postToHost(createAppliedMessage(hostMsg.id, false, message, undefined, issues));
         }
         break;
       }
@@ -158,7 +174,14 @@ export function initPreviewClient(options?: PreviewClientOptions): () => void {
         for (const entry of registry.getAll()) {
           stores[entry.name] = serializableState(entry.store.getState() as Record<string, unknown>);
         }
-        postToHost(createSnapshotResponseMessage(hostMsg.id, { version: 1, timestamp: Date.now(), stores }));
+        postToHost(
+          createSnapshotResponseMessage(hostMsg.id, {
+            version: 1,
+            timestamp: Date.now(),
+            stores,
+            storeVersions: getStoreVersions(),
+          }),
+        );
         break;
       }
 
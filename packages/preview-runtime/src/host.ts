@@ -96,8 +96,9 @@ class ConnectionImpl implements PreviewConnection {
   inject(
     stores: Record<string, Record<string, unknown>>,
     mode?: 'merge' | 'replace',
+    storeVersions?: Record<string, number>,
   ): Promise<AppliedMessage['payload']> {
-    const message = createInjectMessage(stores, mode);
+    const message = createInjectMessage(stores, mode, storeVersions);
     this._postMessage(message);
     return this._createPendingRequest<AppliedMessage['payload']>(message.id);
   }
@@ -18,6 +18,7 @@ export type {
   PreviewConnection,
   ConnectionStatus,
   SnapshotData,
+  SchemaIssue,
   // Message types
   PreviewMessage,
   PreviewMessageType,
@@ -10,6 +10,7 @@ import {
   type SnapshotRequestMessage,
   type ConfigMessage,
   type SnapshotData,
+  type SchemaIssue,
 } from './types.js';
 
 // ============================================================
@@ -41,13 +42,14 @@ export function createAppliedMessage(
   success: boolean,
   error?: string,
   storesState?: Record<string, Record<string, unknown>>,
+  issues?: SchemaIssue[],
 ): AppliedMessage {
   return {
     ns: PROTOCOL_NS,
     version: PROTOCOL_VERSION,
     id: createMessageId(),
     type: 'applied',
-    payload: { requestId, success, error, storesState },
+    payload: { requestId, success, error, storesState, issues },
   };
 }
 
@@ -85,13 +87,14 @@ export function createSnapshotResponseMessage(
 export function createInjectMessage(
   stores: Record<string, Record<string, unknown>>,
   mode: 'merge' | 'replace' = 'merge',
+  storeVersions?: Record<string, number>,
 ): InjectMessage {
   return {
     ns: PROTOCOL_NS,
     version: PROTOCOL_VERSION,
     id: createMessageId(),
     type: 'inject',
-    payload: { stores, mode },
+    payload: { stores, mode, storeVersions },
   };
 }
 
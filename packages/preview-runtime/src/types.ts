@@ -1,7 +1,7 @@
-import type { SnapshotData } from '@vibe-stack/state-sdk';
+import type { SnapshotData, SchemaIssue } from '@vibe-stack/state-sdk';
 
 // Re-export for convenience
-export type { SnapshotData };
+export type { SnapshotData, SchemaIssue };
 
 // ============================================================
 // Protocol Constants
@@ -14,6 +14,9 @@ export const PROTOCOL_VERSION = 1 as const;
 // Base Message
 // ============================================================
 
+// 消息中的 store 状态均为 serializer 的 tagged 编码（Date、Map 等非 JSON 值
+// 以 { $type, value } 表示），可直接经 WebSocket 转发或写入 scene 文件。
+
 export interface BaseMessage {
   ns: typeof PROTOCOL_NS;
   version: typeof PROTOCOL_VERSION;
@@ -39,6 +42,8 @@ export interface AppliedMessage extends BaseMessage {
     requestId: string;
     success: boolean;
     error?: string;
+    /** schema 校验失败时，被拒绝的 store 路径 */
+    issues?: SchemaIssue[];
     storesState?: Record<string, Record<string, unknown>>;
   };
 }
@@ -72,6 +77,8 @@ export interface InjectMessage extends BaseMessage {
   payload: {
     stores: Record<string, Record<string, unknown>>;
     mode: 'merge' | 'replace';
+    /** 各 store 数据的版本，低于当前版本时先执行 migrate */
+    storeVersions?: Record<string, number>;
   };
 }
 
@@ -151,6 +158,7 @@ export interface PreviewConnection {
   inject(
     stores: Record<string, Record<string, unknown>>,
     mode?: 'merge' | 'replace',
+    storeVersions?: Record<string, number>,
   ): Promise<AppliedMessage['payload']>;
 
   requestSnapshot(): Promise<SnapshotData>;
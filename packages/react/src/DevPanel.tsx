@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { registry } from '@vibe-stack/state-sdk';
+import { registry, serializer } from '@vibe-stack/state-sdk';
 import type { StoreRegistryEntry } from '@vibe-stack/state-sdk';
 
 // ============================================
@@ -15,7 +15,7 @@ interface DevPanelProps {
   hotkey?: string;
 }
 
-type Tab = 'state' | 'timeline' | 'branches' | 'mock';
+type Tab = 'state' | 'timeline' | 'branches' | 'profiler' | 'mock';
 
 // ============================================
 // DevPanel Component
@@ -201,7 +201,7 @@ export function DevPanel({
               background: '#18181b',
             }}
           >
-            {(['state', 'timeline', 'branches', 'mock'] as Tab[]).map((tab) => (
+            {(['state', 'timeline', 'branches', 'profiler', 'mock'] as Tab[]).map((tab) => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -233,6 +233,9 @@ export function DevPanel({
             {selectedStore && activeTab === 'branches' && (
               <BranchesPanel store={selectedStore} />
             )}
+            {selectedStore && activeTab === 'profiler' && (
+              <ProfilerPanel store={selectedStore} />
+            )}
             {selectedStore && activeTab === 'mock' && (
               <MockPanel store={selectedStore} />
             )}
@@ -254,18 +257,19 @@ export function DevPanel({
 
 function StateTreePanel({ store }: { store: StoreRegistryEntry }) {
   const state = store.store.getState() as Record<string, unknown>;
+  const computedKeys: string[] = (store.store as any).__computedKeys ?? [];
   const [editKey, setEditKey] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
 
   const handleEdit = (key: string) => {
     setEditKey(key);
-    setEditValue(JSON.stringify(state[key], null, 2));
+    setEditValue(serializer.stringify(state[key], 2));
   };
 
   const handleSave = () => {
     if (!editKey) return;
     try {
-      const parsed = JSON.parse(editValue);
+      const parsed = serializer.parse(editValue);
       store.store.setState({ [editKey]: parsed } as any);
       setEditKey(null);
     } catch {
@@ -300,23 +304,27 @@ function StateTreePanel({ store }: { store: StoreRegistryEntry }) {
               <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
                 <span style={{ color: '#a1a1aa', fontSize: '12px' }}>
                   {typeof value === 'object'
-                    ? JSON.stringify(value).slice(0, 40) + (JSON.stringify(value).length > 40 ? '...' : '')
+                    ? serializer.stringify(value).slice(0, 40) + (serializer.stringify(value).length > 40 ? '...' : '')
                     : String(value)}
                 </span>
-                <button
-                  onClick={() => handleEdit(key)}
-                  style={{
-                    background: '#27272a',
-                    border: '1px solid #3f3f46',
-                    borderRadius: '3px',
-                    color: '#a1a1aa',
-                    cursor: 'pointer',
-                    fontSize: '10px',
-                    padding: '1px 4px',
-                  }}
-                >
-                  edit
-                </button>
+                {computedKeys.includes(key) ? (
+                  <span style={{ color: '#a78bfa', fontSize: '10px' }}>computed</span>
+                ) : (
+                  <button
+                    onClick={() => handleEdit(key)}
+                    style={{
+                      background: '#27272a',
+                      border: '1px solid #3f3f46',
+                      borderRadius: '3px',
+                      color: '#a1a1aa',
+                      cursor: 'pointer',
+                      fontSize: '10px',
+                      padding: '1px 4px',
+                    }}
+                  >
+                    edit
+                  </button>
+                )}
               </div>
             </div>
             {editKey === key && (
@@ -361,6 +369,7 @@ function StateTreePanel({ store }: { store: StoreRegistryEntry }) {
 function TimelinePanel({ store }: { store: StoreRegistryEntry }) {
   const temporal = (store.store as any).temporal;
   const [, setTick] = useState(0);
+  const [markLabel, setMarkLabel] = useState('');
 
   useEffect(() => {
     if (!temporal) return;
@@ -374,6 +383,12 @@ function TimelinePanel({ store }: { store: StoreRegistryEntry }) {
   const pos = temporal.position;
   const history = temporal.getHistory();
   const historyLen = history.length;
+  const marks = temporal.listMarks();
+
+  const handleMark = () => {
+    temporal.mark(markLabel);
+    setMarkLabel('');
+  };
 
   return (
     <div>
@@ -400,10 +415,46 @@ function TimelinePanel({ store }: { store: StoreRegistryEntry }) {
           min={0}
           max={historyLen - 1}
           value={pos}
+          list={`marks-${store.id}`}
           onChange={(e) => temporal.go(parseInt(e.target.value))}
           style={{ width: '100%', marginBottom: '8px' }}
         />
       )}
+      <datalist id={`marks-${store.id}`}>
+        {marks.map((m: any) => (
+          <option key={m.label} value={m.position} label={m.label} />
+        ))}
+      </datalist>
+
+      {/* Marks */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '8px' }}>
+        <input
+          placeholder="Mark label..."
+          value={markLabel}
+          onChange={(e) => setMarkLabel(e.target.value)}
+          style={{
+            background: '#18181b',
+            color: '#e4e4e7',
+            border: '1px solid #3f3f46',
+            borderRadius: '4px',
+            padding: '2px 6px',
+            fontSize: '11px',
+          }}
+        />
+        <button onClick={handleMark} disabled={!markLabel} style={btnStyle}>
+          Mark
+        </button>
+        {marks.map((m: any) => (
+          <button
+            key={m.label}
+            onClick={() => temporal.goToMark(m.label)}
+            title={`Position ${m.position}${m.branchId ? ` on ${m.branchId}` : ''}`}
+            style={{ ...btnStyle, color: '#fbbf24' }}
+          >
+            {m.label} @{m.position}
+          </button>
+        ))}
+      </div>
 
       {/* Action log from inspector */}
       <InspectorLog store={store} />
@@ -415,9 +466,44 @@ function TimelinePanel({ store }: { store: StoreRegistryEntry }) {
 // Inspector Action Log (inside Timeline panel)
 // ============================================
 
+const PHASE_COLORS: Record<string, string> = {
+  start: '#60a5fa',
+  success: '#22c55e',
+  error: '#ef4444',
+};
+
+/** Tooltip for a log entry: call stack, arguments and correlation id */
+function entryTitle(entry: any): string | undefined {
+  const lines: string[] = [];
+  if (entry.callStack?.length > 1) lines.push(entry.callStack.join(' › '));
+  if (entry.args?.length) {
+    try {
+      lines.push(`args: ${serializer.stringify(entry.args)}`);
+    } catch {
+      lines.push(`args: ${entry.args.length} (not serializable)`);
+    }
+  }
+  if (entry.correlationId) lines.push(`call: ${entry.correlationId}`);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+const filterInputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  background: '#18181b',
+  color: '#e4e4e7',
+  border: '1px solid #3f3f46',
+  borderRadius: '4px',
+  padding: '2px 6px',
+  fontSize: '11px',
+};
+
 function InspectorLog({ store }: { store: StoreRegistryEntry }) {
   const inspectorApi = (store.store as any).inspector;
   const [, setTick] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [nameFilter, setNameFilter] = useState('');
+  const [pathFilter, setPathFilter] = useState('');
 
   useEffect(() => {
     if (!inspectorApi) return;
@@ -426,37 +512,184 @@ function InspectorLog({ store }: { store: StoreRegistryEntry }) {
 
   if (!inspectorApi) return null;
 
-  const log = inspectorApi.getActionLog();
+  const filtered = nameFilter !== '' || pathFilter !== '';
+  const log = filtered
+    ? inspectorApi.query({
+        ...(nameFilter && { actionName: nameFilter }),
+        ...(pathFilter && { pathPrefix: pathFilter }),
+      })
+    : inspectorApi.getActionLog();
+
+  // Save the log as a session file to attach to a bug report
+  const handleExport = () => {
+    const json = serializer.stringify(inspectorApi.export(), 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${store.name}-session.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Load a session file into this panel (the store's state is left alone)
+  const handleImport = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        inspectorApi.import(await file.text());
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+      setTick((n: number) => n + 1);
+    };
+    input.click();
+  };
 
   return (
-    <div style={{ maxHeight: '250px', overflow: 'auto' }}>
-      {log.map((entry: any, i: number) => (
-        <div
-          key={entry.id}
-          style={{
-            padding: '4px 8px',
-            marginBottom: '2px',
-            background: '#18181b',
-            borderRadius: '4px',
-            display: 'flex',
-            justifyContent: 'space-between',
-            fontSize: '12px',
-            border: '1px solid transparent',
-          }}
-        >
-          <span style={{ color: '#e4e4e7' }}>
-            #{i + 1} {entry.actionName}
-          </span>
-          <span style={{ color: '#71717a' }}>
-            {entry.patches.length} patch{entry.patches.length !== 1 ? 'es' : ''}
-          </span>
-        </div>
-      ))}
-      {log.length === 0 && (
-        <div style={{ color: '#71717a', textAlign: 'center', padding: '20px' }}>
-          No actions recorded yet.
-        </div>
-      )}
+    <div>
+      <div style={{ display: 'flex', gap: '4px', marginBottom: '4px' }}>
+        <button onClick={handleExport} disabled={!filtered && log.length === 0} style={btnStyle}>
+          Export Session
+        </button>
+        <button onClick={handleImport} style={btnStyle}>
+          Import Session
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: '4px', marginBottom: '4px' }}>
+        <input
+          placeholder="Filter by action..."
+          value={nameFilter}
+          onChange={(e) => setNameFilter(e.target.value)}
+          style={filterInputStyle}
+        />
+        <input
+          placeholder="Filter by path (user.name)..."
+          value={pathFilter}
+          onChange={(e) => setPathFilter(e.target.value)}
+          style={filterInputStyle}
+        />
+      </div>
+      {error && <div style={{ color: '#ef4444', fontSize: '12px', marginBottom: '4px' }}>{error}</div>}
+      <div style={{ maxHeight: '250px', overflow: 'auto' }}>
+        {log.map((entry: any, i: number) => (
+          <div
+            key={entry.id}
+            style={{
+              padding: '4px 8px',
+              marginBottom: '2px',
+              background: '#18181b',
+              borderRadius: '4px',
+              display: 'flex',
+              justifyContent: 'space-between',
+              fontSize: '12px',
+              border: '1px solid transparent',
+            }}
+          >
+            <span style={{ color: '#e4e4e7' }} title={entryTitle(entry)}>
+              #{i + 1} {entry.actionName}
+              {entry.callStack?.length > 1 && (
+                <span style={{ color: '#71717a', marginLeft: '6px', fontSize: '10px' }}>
+                  in {entry.callStack[entry.callStack.length - 2]}
+                </span>
+              )}
+              {entry.phase && (
+                <span style={{ color: PHASE_COLORS[entry.phase], marginLeft: '6px', fontSize: '10px' }}>
+                  {entry.phase}
+                </span>
+              )}
+            </span>
+            <span style={{ color: entry.error ? '#ef4444' : '#71717a' }}>
+              {entry.error ??
+                (entry.phase ? '' : `${entry.patches.length} patch${entry.patches.length !== 1 ? 'es' : ''}`)}
+            </span>
+          </div>
+        ))}
+        {log.length === 0 && (
+          <div style={{ color: '#71717a', textAlign: 'center', padding: '20px' }}>
+            {filtered ? 'No matching actions.' : 'No actions recorded yet.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Profiler Panel
+// ============================================
+
+const cellStyle: React.CSSProperties = {
+  padding: '3px 6px',
+  textAlign: 'right',
+  whiteSpace: 'nowrap',
+};
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function ProfilerPanel({ store }: { store: StoreRegistryEntry }) {
+  const inspectorApi = (store.store as any).inspector;
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!inspectorApi) return;
+    return inspectorApi.subscribe(() => setTick((n: number) => n + 1));
+  }, [inspectorApi]);
+
+  if (!inspectorApi) return null;
+
+  const stats = inspectorApi.stats();
+
+  if (stats.count === 0) {
+    return (
+      <div style={{ color: '#71717a', textAlign: 'center', padding: '20px' }}>
+        No state changes recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div style={{ color: '#a1a1aa', fontSize: '12px', marginBottom: '8px' }}>
+        {stats.count} set() calls · {stats.totalDuration.toFixed(1)} ms · {stats.notifications}{' '}
+        notifications · {formatBytes(stats.patchBytes)} patches
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '11px' }}>
+        <thead>
+          <tr style={{ color: '#71717a' }}>
+            <th style={{ ...cellStyle, textAlign: 'left' }}>Action</th>
+            <th style={cellStyle}>Calls</th>
+            <th style={cellStyle}>Total ms</th>
+            <th style={cellStyle}>Avg ms</th>
+            <th style={cellStyle}>Max ms</th>
+            <th style={cellStyle}>Notified</th>
+            <th style={cellStyle}>Patches</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.actions.map((profile: any) => (
+            <tr key={profile.actionName} style={{ borderTop: '1px solid #27272a' }}>
+              <td style={{ ...cellStyle, textAlign: 'left', color: '#e4e4e7' }}>
+                {profile.actionName}
+              </td>
+              <td style={cellStyle}>{profile.count}</td>
+              <td style={cellStyle}>{profile.totalDuration.toFixed(2)}</td>
+              <td style={cellStyle}>{profile.avgDuration.toFixed(2)}</td>
+              <td style={cellStyle}>{profile.maxDuration.toFixed(2)}</td>
+              <td style={cellStyle}>{profile.notifications}</td>
+              <td style={cellStyle} title={`${profile.patchCount} patches`}>
+                {formatBytes(profile.patchBytes)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
     </div>
   );
 }
@@ -465,12 +698,91 @@ function InspectorLog({ store }: { store: StoreRegistryEntry }) {
 // Branches Panel
 // ============================================
 
+// Timeline dots drawn per branch before the rest is elided
+const MAX_GRAPH_DOTS = 30;
+
+interface GraphRow {
+  node: any;
+  /** Tree-drawing prefix, like `git log --graph` */
+  prefix: string;
+}
+
+/** Flatten the branch tree depth-first into rows with their lane prefixes */
+function graphRows(nodes: any[], lanes = '', isRoot = true): GraphRow[] {
+  return nodes.flatMap((node, i) => {
+    const last = i === nodes.length - 1;
+    const prefix = isRoot ? '' : lanes + (last ? '└─ ' : '├─ ');
+    const childLanes = isRoot ? '' : lanes + (last ? '   ' : '│  ');
+    return [{ node, prefix }, ...graphRows(node.children, childLanes, false)];
+  });
+}
+
+function BranchGraph({ branchApi }: { branchApi: any }) {
+  const rows = graphRows(branchApi.tree());
+
+  return (
+    <div style={{ fontFamily: 'monospace', fontSize: '11px', marginBottom: '8px' }}>
+      {rows.map(({ node, prefix }) => {
+        // Fork points of this branch's children, marked on its own timeline
+        const forks = new Map<number, string[]>();
+        for (const child of node.children) {
+          forks.set(child.forkPoint, [...(forks.get(child.forkPoint) ?? []), child.name]);
+        }
+        const dots = Math.min(node.length, MAX_GRAPH_DOTS);
+
+        return (
+          <div
+            key={node.id}
+            onClick={() => !node.active && branchApi.switch(node.id)}
+            title={node.active ? 'Active branch' : `Switch to ${node.name}`}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              padding: '2px 4px',
+              whiteSpace: 'pre',
+              cursor: node.active ? 'default' : 'pointer',
+              background: node.active ? '#1e3a5f' : 'transparent',
+              borderRadius: '4px',
+            }}
+          >
+            <span style={{ color: '#52525b' }}>{prefix}</span>
+            <span style={{ color: node.active ? '#60a5fa' : '#e4e4e7', fontWeight: node.active ? 600 : 400 }}>
+              {node.name}
+            </span>
+            {prefix !== '' && <span style={{ color: '#71717a' }}>@{node.forkPoint}</span>}
+            <span>
+              {Array.from({ length: dots + 1 }, (_, pos) => (
+                <span
+                  key={pos}
+                  title={
+                    forks.has(pos)
+                      ? `Position ${pos}: forked ${forks.get(pos)!.join(', ')}`
+                      : `Position ${pos}`
+                  }
+                  style={{
+                    color: forks.has(pos) ? '#fbbf24' : pos === node.currentPosition ? '#60a5fa' : '#52525b',
+                  }}
+                >
+                  {forks.has(pos) ? '◆' : pos === node.currentPosition ? '●' : '○'}
+                </span>
+              ))}
+              {node.length > MAX_GRAPH_DOTS && <span style={{ color: '#52525b' }}>…{node.length}</span>}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 function BranchesPanel({ store }: { store: StoreRegistryEntry }) {
   const branchApi = (store.store as any).branch;
   const [, setTick] = useState(0);
   const [newBranchName, setNewBranchName] = useState('');
   const [diffResult, setDiffResult] = useState<any>(null);
   const [diffPair, setDiffPair] = useState<[string, string] | null>(null);
+  const [view, setView] = useState<'list' | 'graph'>('list');
 
   useEffect(() => {
     if (!branchApi) return;
@@ -516,10 +828,15 @@ function BranchesPanel({ store }: { store: StoreRegistryEntry }) {
         <button onClick={handleFork} style={btnStyle}>
           Fork
         </button>
+        <button onClick={() => setView(view === 'list' ? 'graph' : 'list')} style={btnStyle}>
+          {view === 'list' ? 'Graph' : 'List'}
+        </button>
       </div>
 
+      {view === 'graph' && <BranchGraph branchApi={branchApi} />}
+
       {/* Branch list */}
-      {branches.map((branch: any) => (
+      {view === 'list' && branches.map((branch: any) => (
         <div
           key={branch.id}
           style={{
@@ -590,25 +907,31 @@ function BranchesPanel({ store }: { store: StoreRegistryEntry }) {
             <div key={i} style={{ fontSize: '11px', marginBottom: '2px' }}>
               <span style={{ color: '#fbbf24' }}>{c.path.join('.')}</span>
               <span style={{ color: '#ef4444', marginLeft: '8px' }}>
-                {JSON.stringify(c.from)}
+                {serializer.stringify(c.from)}
               </span>
               <span style={{ color: '#71717a' }}>{' -> '}</span>
-              <span style={{ color: '#22c55e' }}>{JSON.stringify(c.to)}</span>
+              <span style={{ color: '#22c55e' }}>{serializer.stringify(c.to)}</span>
             </div>
           ))}
           {diffResult.added.map((a: any, i: number) => (
             <div key={`a${i}`} style={{ fontSize: '11px', color: '#22c55e' }}>
-              + {a.path.join('.')}: {JSON.stringify(a.value)}
+              + {a.path.join('.')}: {serializer.stringify(a.value)}
             </div>
           ))}
           {diffResult.removed.map((r: any, i: number) => (
             <div key={`r${i}`} style={{ fontSize: '11px', color: '#ef4444' }}>
-              - {r.path.join('.')}: {JSON.stringify(r.value)}
+              - {r.path.join('.')}: {serializer.stringify(r.value)}
+            </div>
+          ))}
+          {diffResult.moved.map((m: any, i: number) => (
+            <div key={`m${i}`} style={{ fontSize: '11px', color: '#60a5fa' }}>
+              ~ {m.path.slice(0, -1).join('.')}: moved {m.from} {'->'} {m.to}
             </div>
           ))}
           {diffResult.changed.length === 0 &&
             diffResult.added.length === 0 &&
-            diffResult.removed.length === 0 && (
+            diffResult.removed.length === 0 &&
+            diffResult.moved.length === 0 && (
               <div style={{ color: '#71717a', fontSize: '11px' }}>No differences</div>
             )}
         </div>
@@ -627,7 +950,7 @@ function MockPanel({ store }: { store: StoreRegistryEntry }) {
 
   const handleInject = () => {
     try {
-      const data = JSON.parse(jsonInput);
+      const data = serializer.parse<Record<string, unknown>>(jsonInput);
       const current = store.store.getState();
       store.store.setState({ ...current, ...data }, true);
       setStatus('Injected successfully');
@@ -643,7 +966,7 @@ function MockPanel({ store }: { store: StoreRegistryEntry }) {
     for (const [k, v] of Object.entries(state)) {
       if (typeof v !== 'function') serializable[k] = v;
     }
-    setJsonInput(JSON.stringify(serializable, null, 2));
+    setJsonInput(serializer.stringify(serializable, 2));
   };
 
   return (
@@ -11,20 +11,73 @@ export {
   registry,
   bridge,
   snapshot,
+  serializer,
   mock,
+  transaction,
+  asyncAction,
+  globalTimeline,
+  StateValidationError,
+  validateState,
+  diffStates,
+  diffAsJsonPatch,
+  applyJsonPatch,
+  getStoreVersions,
+  migrateStores,
+  createMemoryStorage,
+  createLocalStorage,
+  createIndexedDBStorage,
 } from '@vibe-stack/state-sdk';
 
 export type {
   StoreConfig,
   TimelineConfig,
+  CoalesceConfig,
+  CoalesceInfo,
+  TimelineMark,
   BranchingConfig,
+  PersistConfig,
+  PersistStorage,
+  PersistApi,
   TemporalApi,
   BranchData,
   BranchDiffResult,
+  BranchDiffOptions,
+  BranchTimelineOptions,
+  ForkOptions,
+  ApplyDiffOptions,
+  DiffOptions,
+  JsonPatchOperation,
   BranchApi,
+  BranchTreeNode,
+  CommonAncestor,
+  MergeOptions,
+  MergeResult,
+  CherryPickResult,
+  RebaseResult,
   ActionLogEntry,
   InspectorApi,
+  InspectorConfig,
+  InspectorQuery,
+  InspectorStats,
+  ActionProfile,
+  InspectorSession,
+  InspectorStorage,
+  RecorderConfig,
+  ComputedConfig,
+  StateSchema,
+  SchemaIssue,
+  StoreMigrate,
+  SerializerCodec,
+  AsyncActionOptions,
+  AsyncActionsConfig,
+  Recording,
+  ReplayOptions,
+  ReplayResult,
+  VerifyResult,
+  RecorderApi,
   EnhancedStoreApi,
   StoreRegistryEntry,
+  TransactionRecord,
+  GlobalHistoryEntry,
   SnapshotData,
 } from '@vibe-stack/state-sdk';
@@ -1,5 +1,13 @@
 import { useSyncExternalStore, useCallback } from 'react';
-import type { EnhancedStoreApi, BranchData, BranchDiffResult } from '@vibe-stack/state-sdk';
+import type {
+  EnhancedStoreApi,
+  BranchApi,
+  BranchData,
+  MergeOptions,
+  MergeResult,
+  CherryPickResult,
+  ForkOptions,
+} from '@vibe-stack/state-sdk';
 
 interface BranchesState {
   branches: BranchData[];
@@ -20,11 +28,14 @@ interface BranchesState {
  * ```
  */
 export function useBranches(store: any): BranchesState & {
-  fork: (name?: string) => BranchData;
-  switchTo: (branchId: string) => void;
-  diff: (branchIdA: string, branchIdB: string) => BranchDiffResult;
+  fork: (name?: string, options?: ForkOptions) => BranchData;
+  switchTo: BranchApi['switch'];
+  diff: BranchApi['diff'];
   deleteBranch: (branchId: string) => void;
   rename: (branchId: string, newName: string) => void;
+  merge: (sourceId: string, targetId: string, options?: MergeOptions) => MergeResult;
+  cherryPick: (sourceBranchId: string, positions: number[]) => CherryPickResult;
+  applyDiff: BranchApi['applyDiff'];
 } {
   const api = (store as unknown as EnhancedStoreApi<any>).branch;
 
@@ -50,5 +61,8 @@ export function useBranches(store: any): BranchesState & {
     diff: api.diff,
     deleteBranch: api.delete,
     rename: api.rename,
+    merge: api.merge,
+    cherryPick: api.cherryPick,
+    applyDiff: api.applyDiff,
   };
 }
@@ -1,5 +1,5 @@
 import { useSyncExternalStore, useCallback } from 'react';
-import type { EnhancedStoreApi, TravelPatches } from '@vibe-stack/state-sdk';
+import type { EnhancedStoreApi, TimelineMark, TravelPatches } from '@vibe-stack/state-sdk';
 
 interface UseTimelineResult {
   /** Current position in history */
@@ -8,6 +8,8 @@ interface UseTimelineResult {
   canBack: boolean;
   /** Whether redo is possible (reactive snapshot) */
   canForward: boolean;
+  /** Bookmarked positions (reactive snapshot) */
+  marks: TimelineMark[];
   /** Undo N steps (default 1) */
   back: (steps?: number) => void;
   /** Redo N steps (default 1) */
@@ -20,6 +22,12 @@ interface UseTimelineResult {
   getHistory: () => readonly unknown[];
   /** Get raw patches */
   patches: TravelPatches;
+  /** Record every set() made by `fn` as a single history entry */
+  batch: (fn: () => void) => void;
+  /** Bookmark the current position */
+  mark: (label: string) => TimelineMark;
+  /** Jump to a bookmarked position */
+  goToMark: (label: string) => void;
   /** Subscribe to timeline changes */
   subscribe: (listener: () => void) => () => void;
 }
@@ -49,6 +57,7 @@ export function useTimeline(store: any): UseTimelineResult {
       position: api.position,
       canBack: api.canBack(),
       canForward: api.canForward(),
+      marks: api.listMarks(),
     }),
     [api]
   );
@@ -63,6 +72,9 @@ export function useTimeline(store: any): UseTimelineResult {
     reset: api.reset,
     getHistory: api.getHistory,
     get patches() { return api.patches; },
+    batch: api.batch,
+    mark: api.mark,
+    goToMark: api.goToMark,
     subscribe: api.subscribe,
   };
 }